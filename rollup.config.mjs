@@ -4,6 +4,7 @@ import typescript from '@rollup/plugin-typescript';
 import terser from '@rollup/plugin-terser';
 import replace from '@rollup/plugin-replace';
 import { readFileSync } from 'fs';
+import { gzipSync } from 'zlib';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -13,12 +14,38 @@ const pkg = JSON.parse(readFileSync(join(__dirname, 'package.json'), 'utf-8'));
 
 const production = !process.env.ROLLUP_WATCH;
 
+// Fail the build when an entry outgrows its budget (gzipped KB, including statically imported chunks)
+function sizeBudget(kilobytes) {
+  return {
+    name: 'size-budget',
+    generateBundle(_options, bundle) {
+      const gzipSize = (fileName, seen) => {
+        const chunk = bundle[fileName];
+        if (!chunk || chunk.type !== 'chunk' || seen.has(fileName)) return 0;
+        seen.add(fileName);
+        return gzipSync(chunk.code).length +
+          chunk.imports.reduce((total, imported) => total + gzipSize(imported, seen), 0);
+      };
+
+      for (const chunk of Object.values(bundle)) {
+        if (chunk.type !== 'chunk' || !chunk.isEntry) continue;
+
+        const size = gzipSize(chunk.fileName, new Set()) / 1024;
+        if (size > kilobytes) {
+          this.error(`${chunk.fileName} is ${size.toFixed(1)} KB gzipped, over its ${kilobytes} KB budget`);
+        }
+      }
+    }
+  };
+}
+
 export default [
   // UMD build (for browsers via script tag)
   {
     input: 'src/index.ts',
     output: {
       file: 'dist/agemin-sdk.umd.js',
+      inlineDynamicImports: true,
       format: 'umd',
       name: 'Agemin',
       sourcemap: true,
@@ -38,7 +65,8 @@ export default [
         tsconfig: './tsconfig.json',
         declaration: false,
         declarationDir: undefined
-      })
+      }),
+      sizeBudget(90)
     ]
   },
   // Minified UMD build
@@ -46,6 +74,7 @@ export default [
     input: 'src/index.ts',
     output: {
       file: 'dist/agemin-sdk.min.js',
+      inlineDynamicImports: true,
       format: 'umd',
       name: 'Agemin',
       sourcemap: true,
@@ -71,7 +100,8 @@ export default [
           drop_console: true,
           drop_debugger: true
         }
-      })
+      }),
+      sizeBudget(45)
     ]
   },
   // ESM build (for modern bundlers)
@@ -79,6 +109,7 @@ export default [
     input: 'src/index.ts',
     output: {
       file: 'dist/agemin-sdk.esm.js',
+      inlineDynamicImports: true,
       format: 'es',
       sourcemap: true,
     },
@@ -97,7 +128,8 @@ export default [
         declaration: true,
         declarationDir: 'dist',
         rootDir: 'src'
-      })
+      }),
+      sizeBudget(90)
     ]
   },
   // CJS build (for Node.js)
@@ -105,6 +137,94 @@ export default [
     input: 'src/index.ts',
     output: {
       file: 'dist/agemin-sdk.cjs.js',
+      inlineDynamicImports: true,
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named'
+    },
+    plugins: [
+      replace({
+        preventAssignment: true,
+        '__VERSION__': JSON.stringify(pkg.version)
+      }),
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined
+      }),
+      sizeBudget(90)
+    ]
+  },
+  // Loader build (ESM with code-split chunks; jose and FingerprintJS load on demand)
+  {
+    input: { loader: 'src/loader.ts' },
+    output: {
+      dir: 'dist/loader',
+      format: 'es',
+      sourcemap: true,
+      entryFileNames: '[name].js',
+      chunkFileNames: 'chunks/[name]-[hash].js'
+    },
+    plugins: [
+      replace({
+        preventAssignment: true,
+        'process.env.NODE_ENV': JSON.stringify('production'),
+        '__VERSION__': JSON.stringify(pkg.version)
+      }),
+      resolve({
+        browser: true,
+        preferBuiltins: false
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined,
+        outDir: 'dist/loader'
+      }),
+      terser({
+        compress: {
+          drop_console: true,
+          drop_debugger: true
+        }
+      }),
+      sizeBudget(6)
+    ]
+  },
+  // Server ESM build (no DOM dependencies)
+  {
+    input: 'src/server/index.ts',
+    output: {
+      file: 'dist/server.esm.js',
+      format: 'es',
+      sourcemap: true,
+    },
+    plugins: [
+      replace({
+        preventAssignment: true,
+        '__VERSION__': JSON.stringify(pkg.version)
+      }),
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined
+      }),
+      sizeBudget(18)
+    ]
+  },
+  // Server CJS build (no DOM dependencies)
+  {
+    input: 'src/server/index.ts',
+    output: {
+      file: 'dist/server.cjs.js',
       format: 'cjs',
       sourcemap: true,
       exports: 'named'
@@ -122,7 +242,61 @@ export default [
         tsconfig: './tsconfig.json',
         declaration: false,
         declarationDir: undefined
-      })
+      }),
+      sizeBudget(18)
+    ]
+  },
+  // Testing ESM build (Node-only verification simulator)
+  {
+    input: 'src/testing/index.ts',
+    external: ['http', 'net'],
+    output: {
+      file: 'dist/testing.esm.js',
+      format: 'es',
+      sourcemap: true,
+    },
+    plugins: [
+      replace({
+        preventAssignment: true,
+        '__VERSION__': JSON.stringify(pkg.version)
+      }),
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined
+      }),
+      sizeBudget(12)
+    ]
+  },
+  // Testing CJS build (Node-only verification simulator)
+  {
+    input: 'src/testing/index.ts',
+    external: ['http', 'net'],
+    output: {
+      file: 'dist/testing.cjs.js',
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named'
+    },
+    plugins: [
+      replace({
+        preventAssignment: true,
+        '__VERSION__': JSON.stringify(pkg.version)
+      }),
+      resolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined
+      }),
+      sizeBudget(12)
     ]
   }
 ];
\ No newline at end of file
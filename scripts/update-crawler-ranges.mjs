@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * Regenerates src/server/crawlerRanges.ts from the IP range files Google, Bing and Apple publish
+ * for their crawlers. Run with `npm run update:crawlers` and commit the result.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const SOURCES = {
+  google: 'https://developers.google.com/static/search/apis/ipranges/googlebot.json',
+  bing: 'https://www.bing.com/toolbox/bingbot.json',
+  apple: 'https://search.developer.apple.com/applebot.json'
+};
+
+const target = fileURLToPath(new URL('../src/server/crawlerRanges.ts', import.meta.url));
+
+async function fetchRanges(name, url) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${name}: ${url} responded with ${response.status}`);
+  }
+  
+  const data = await response.json();
+  const ranges = (data.prefixes || [])
+    .map(prefix => prefix.ipv4Prefix || prefix.ipv6Prefix)
+    .filter(Boolean);
+  if (!ranges.length) {
+    throw new Error(`${name}: ${url} lists no prefixes`);
+  }
+  return ranges;
+}
+
+const entries = [];
+for (const [name, url] of Object.entries(SOURCES)) {
+  const ranges = await fetchRanges(name, url);
+  console.log(`${name}: ${ranges.length} ranges`);
+  entries.push(`  // ${url}\n  ${name}: [\n${ranges.map(range => `    '${range}'`).join(',\n')}\n  ]`);
+}
+
+writeFileSync(target, `/**
+ * Crawler IP ranges from the files each operator publishes
+ * Generated by scripts/update-crawler-ranges.mjs on ${new Date().toISOString().slice(0, 10)} - do not edit by hand
+ */
+
+export const CRAWLER_RANGES: Record<'google' | 'bing' | 'apple', string[]> = {
+${entries.join(',\n')}
+};
+`);
+
+console.log(`Wrote ${target}`);
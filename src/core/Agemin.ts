@@ -1,21 +1,47 @@
 import { Modal } from './Modal';
+import { Popup } from './Popup';
+import { ContentGate } from './ContentGate';
+import { SelfDeclareDialog, SelfDeclareReason } from './SelfDeclareDialog';
+import { RouteGuard } from './RouteGuard';
+import { TabSync, TabSyncMessage } from './TabSync';
+import { ExpiryWatcher } from './ExpiryWatcher';
+import { EventEmitter } from './EventEmitter';
 import {
   AgeminConfig,
+  BotDetectionReport,
+  ConsentState,
   VerifyOptions,
+  GateOptions,
+  Jurisdiction,
+  ProtectedRoute,
+  ProtectRoutesOptions,
+  TokenStorageAdapter,
+  TokenValidationResult,
   VerificationResult,
+  VerificationStatus,
   VerificationError,
-  MessageType
+  MessageType,
+  AgeminEventMap,
+  AgeminEventName,
+  AgeminEventHandler,
+  ProgressData,
+  StateChangeData,
+  UserActionData,
+  Unsubscribe
 } from '../types';
-import { DEFAULT_CONFIG, SDK_VERSION } from '../utils/constants';
+import { DEFAULT_CONFIG, DEFAULT_GATE_SELECTOR, SDK_VERSION } from '../utils/constants';
 import {
   buildUrl,
   parseMessage,
-  isTrustedOrigin
+  isTrustedOrigin,
+  normalizeOrigin,
+  domReady
 } from '../utils/dom';
-import { getDefaultMode, isSupported, getBrowserLanguage, isSearchEngineBot } from '../utils/device';
-import { setCookie, getCookie, deleteCookie } from '../utils/cookies';
-import { validateJWT, decodeJWT } from '../utils/jwt';
-import { getDeviceFingerprint } from '../utils/fingerprint';
+import { getDefaultMode, isSupported, getBrowserLanguage, isSearchEngineBot, detectBot } from '../utils/device';
+import { createTokenStorage } from '../utils/storage';
+import { resolveConsent } from '../utils/consent';
+import { readRedirectResult, stripRedirectParams } from '../utils/redirect';
+import { detectRegion, matchRule } from '../utils/jurisdiction';
 
 // Global state interface
 interface AgeminGlobalState {
@@ -30,6 +56,9 @@ interface AgeminGlobalState {
   instanceCreationInProgress: { [assetId: string]: boolean };  // Track instance creation
 }
 
+// Per-verification callbacks taken from VerifyOptions
+type VerificationCallbacks = Pick<VerifyOptions, 'onSuccess' | 'onAgePass' | 'onAgeFail' | 'onError' | 'onCancel' | 'onClose'>;
+
 // Initialize global state on window object
 // This persists across module re-evaluations and React remounts
 declare global {
@@ -53,6 +82,18 @@ if (typeof window !== 'undefined' && !window.__AGEMIN__) {
   };
 }
 
+// Status with no token details, filled in by the token checks
+const UNVERIFIED_STATUS: VerificationStatus = {
+  verified: false,
+  isOfAge: null,
+  ageThreshold: null,
+  confidence: null,
+  faceConfidence: null,
+  expiresAt: null,
+  domain: null,
+  reason: null
+};
+
 export class Agemin {
   // Static property for verification state only
   private static isVerificationActive: boolean = false;
@@ -60,14 +101,21 @@ export class Agemin {
   // Instance properties
   private config: Required<AgeminConfig>;
   private modal: Modal;
-  private callbacks: {
-    onSuccess?: (data: VerificationResult) => void;
-    onAgePass?: (data: VerificationResult) => void;
-    onAgeFail?: (data: VerificationResult) => void;
-    onError?: (error: VerificationError) => void;
-    onCancel?: () => void;
-    onClose?: () => void;
-  } = {};
+  private popup: Popup = new Popup();
+  private selfDeclareDialog: SelfDeclareDialog = new SelfDeclareDialog();
+  private callbacks: VerificationCallbacks = {};
+  private requiredAge: number = 0;
+  private events = new EventEmitter<AgeminEventMap>();
+  private tokenStorage!: TokenStorageAdapter;
+  private memoryStorage: TokenStorageAdapter = createTokenStorage('memory');
+  private sessionStorage: TokenStorageAdapter = createTokenStorage('sessionStorage');
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private consentState: Promise<ConsentState> | null = null;
+  private staleBinding: boolean = false;
+  private tabSync: TabSync | null = null;
+  private routeGuards = new Set<RouteGuard>();
+  private revealedGate: GateOptions | null = null;
+  private expiryWatcher!: ExpiryWatcher;
 
   constructor(config: AgeminConfig) {
     if (!config || !config.assetId) {
@@ -89,6 +137,11 @@ export class Agemin {
       if (config.mode !== undefined) {
         instance.config.mode = config.mode;
       }
+
+      // Also update inline container if provided (e.g. a new React ref)
+      if (config.container !== undefined) {
+        instance.config.container = config.container;
+      }
       
       // Also update metadata if provided
       if (config.metadata !== undefined) {
@@ -113,6 +166,9 @@ export class Agemin {
           if (config.mode !== undefined) {
             instance.config.mode = config.mode;
           }
+          if (config.container !== undefined) {
+            instance.config.container = config.container;
+          }
           if (config.metadata !== undefined) {
             instance.config.metadata = config.metadata;
           }
@@ -168,10 +224,26 @@ export class Agemin {
       errorUrl: config.errorUrl || null,
       successUrl: config.successUrl || null,
       cancelUrl: config.cancelUrl || null,
-      verificationURL: config.verificationURL || null
+      verificationURL: config.verificationURL || null,
+      jwksUrl: config.jwksUrl || null,
+      trustedOrigins: config.trustedOrigins || [],
+      container: config.container || null,
+      rules: config.rules || null,
+      region: config.region || null,
+      policy: config.policy || null,
+      consent: config.consent || null,
+      storageKey: config.storageKey || config.cookie?.name || DEFAULT_CONFIG.storageKey,
+      cookie: config.cookie || {},
+      expiry: { ...DEFAULT_CONFIG.expiry, ...config.expiry }
     } as Required<AgeminConfig>;
 
     this.modal = new Modal();
+    this.tokenStorage = createTokenStorage(this.config.storage, this.config.cookie);
+    this.expiryWatcher = new ExpiryWatcher(
+      this.config.expiry.warnBefore ?? DEFAULT_CONFIG.expiry.warnBefore,
+      expiresAt => this.handleTokenExpiring(expiresAt),
+      expiresAt => this.handleTokenExpired(expiresAt)
+    );
 
     if (this.config.debug) {
       console.log('Agemin SDK initialized', {
@@ -181,6 +253,13 @@ export class Agemin {
     }
 
     this.setupMessageListener();
+
+    if (this.config.syncTabs) {
+      this.tabSync = new TabSync(`agemin:${this.config.assetId}`, message => {
+        this.handleTabSyncMessage(message);
+      });
+      this.tabSync.start();
+    }
     
     // Clear the creation flag now that instance is fully initialized
     if (typeof window !== 'undefined' && window.__AGEMIN__) {
@@ -193,13 +272,22 @@ export class Agemin {
    */
   private verifyAndWait(options: VerifyOptions = {}): Promise<boolean> {
     // Check if search engine bypass is enabled and user agent is a search engine
-    if (this.config.allowSearchEngineBypass && isSearchEngineBot(this.config.searchEngineDetection)) {
+    if (this.config.allowSearchEngineBypass && isSearchEngineBot(this.config.searchEngineDetection, this.config.botDetection)) {
       if (this.config.debug) {
         console.log('Agemin SDK: Search engine bot detected, bypassing verification');
       }
       // Return resolved promise to allow access without verification
       return Promise.resolve(true);
     }
+
+    // Apply jurisdiction rules before launching anything
+    const { region, rule } = this.getJurisdiction();
+    if (rule && !rule.required) {
+      if (this.config.debug) {
+        console.log(`Agemin SDK: No age check required for region ${region}`);
+      }
+      return Promise.resolve(true);
+    }
     
     // Check if modal already exists in DOM
     if (document.getElementById('agemin-iframe')) {
@@ -248,30 +336,55 @@ export class Agemin {
         onClose: options.onClose
       };
 
+      // Fresh tokens are checked against the same threshold as stored ones
+      this.requiredAge = this.getRequiredAge(options);
+
       // Use the referenceId from this instance's config
       const referenceId = this.config.referenceId;
       
       // Store the referenceId globally so other instances know which one is active
       window.__AGEMIN__.referenceId = referenceId;
 
-      // Generate device fingerprint (non-blocking, with graceful fallback)
-      const fingerprint = await getDeviceFingerprint();
-
-      // Build verification URL with fingerprint
-      const url = this.buildVerificationUrl(referenceId, options, fingerprint);
+      // Regions that accept self-declaration skip the verification UI entirely
+      if (rule && rule.method === 'self-declare') {
+        this.handleSelfDeclaration(this.callbacks, 'jurisdiction');
+        return;
+      }
 
       // Handle verification based on mode (priority: options > config > default)
       const mode = options.mode || this.config.mode || getDefaultMode();
 
-      if (this.config.debug) {
-        console.log('Starting verification', {
-          referenceId,
-          mode,
-          url
-        });
-      }
+      // Popups must be opened synchronously within the user gesture,
+      // so open a blank one now and navigate once the URL is ready
+      const popupOpened = mode === 'popup' && this.popup.open('about:blank', () => this.handleCancel());
 
       try {
+        // Generate device fingerprint (non-blocking, with graceful fallback), if consented
+        let fingerprint = '';
+        try {
+          const consent = await this.getConsent();
+          if (consent.fingerprint) {
+            // FingerprintJS is loaded on demand; a chunk that fails to load means no fingerprint
+            const { resolveFingerprint } = await import('../utils/fingerprint');
+            fingerprint = await resolveFingerprint(this.config.fingerprint);
+          }
+        } catch (error) {
+          if (this.config.debug) {
+            console.warn('Agemin SDK: Device fingerprint unavailable, continuing without it', error);
+          }
+        }
+
+        // Build verification URL with fingerprint
+        const url = this.buildVerificationUrl(referenceId, options, fingerprint);
+
+        if (this.config.debug) {
+          console.log('Starting verification', {
+            referenceId,
+            mode,
+            url
+          });
+        }
+
         switch (mode) {
           case 'redirect':
             window.location.href = url;
@@ -279,6 +392,26 @@ export class Agemin {
             resolve(false);
             break;
 
+          case 'popup':
+            if (popupOpened) {
+              this.popup.navigate(url);
+              // Promise will be resolved in handleSuccess/handleError/handleCancel
+            } else {
+              // Popup blocked - fall back to redirect
+              if (this.config.debug) {
+                console.warn('Agemin SDK: Popup blocked, falling back to redirect');
+              }
+              window.location.href = url;
+              resolve(false);
+            }
+            break;
+
+          case 'inline':
+            // Mount into the host container
+            this.modal.openInline(this.resolveContainer(options), url);
+            // Promise will be resolved in handleSuccess/handleError/handleCancel
+            break;
+
           case 'modal':
           default:
             // Open the modal
@@ -287,6 +420,15 @@ export class Agemin {
             break;
         }
       } catch (error) {
+        // The self-declaration fallback settles the promise itself
+        if (this.config.fallback === 'self-declare') {
+          this.handleError({
+            code: 'LAUNCH_ERROR',
+            message: error instanceof Error ? error.message : 'Failed to launch verification'
+          });
+          return;
+        }
+
         // Reset global state on error
         window.__AGEMIN__.isVerifying = false;
         window.__AGEMIN__.referenceId = null;
@@ -329,7 +471,9 @@ export class Agemin {
    */
   close(): void {
     this.modal.close();
+    this.popup.close();
     this.cleanup();
+    this.events.emit('close', undefined);
   }
 
   /**
@@ -343,7 +487,7 @@ export class Agemin {
    * Check if verification is currently open
    */
   isOpen(): boolean {
-    return this.modal.isOpen();
+    return this.modal.isOpen() || this.popup.isOpen();
   }
 
   /**
@@ -400,64 +544,131 @@ export class Agemin {
     }
   }
 
+  /**
+   * Hide page content, then validate the session and reveal it only for verified, of-age visitors
+   * Call from a <head> script so content is hidden before the first paint.
+   * Content stays hidden on cancel, age fail or error.
+   * @returns true if the content was revealed
+   */
+  async gate(options: GateOptions = {}): Promise<boolean> {
+    const { selectors, strategy, ...verifyOptions } = options;
+    const contentGate = new ContentGate(selectors || DEFAULT_GATE_SELECTOR, strategy || 'blur');
+    contentGate.apply();
+
+    try {
+      // The verification UI needs <body>
+      await domReady();
+
+      const passed = await this.validateSession(verifyOptions);
+      if (passed) {
+        contentGate.reveal();
+        // Remember how to gate again if the token is cleared in another tab
+        this.revealedGate = options;
+      }
+      return passed;
+    } catch (error) {
+      if (this.config.debug) {
+        console.log('Agemin SDK: Verification did not complete, content stays gated', error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Gate single-page app routes
+   * Runs validateSession whenever a protected path is entered via pushState,
+   * replaceState or popstate, and navigates away on cancel, age fail or error
+   * @returns Function that stops protecting the routes
+   */
+  protectRoutes(routes: ProtectedRoute[], options: ProtectRoutesOptions = {}): Unsubscribe {
+    const { fallbackPath, ...verifyOptions } = options;
+
+    const guard = new RouteGuard(routes, route => {
+      if (this.config.debug) {
+        console.log('Agemin SDK: Protected route entered', route.path);
+      }
+      return this.validateSession({
+        ...verifyOptions,
+        minimumAge: route.minimumAge ?? verifyOptions.minimumAge
+      });
+    }, fallbackPath);
+
+    guard.install();
+    this.routeGuards.add(guard);
+
+    return () => {
+      guard.uninstall();
+      this.routeGuards.delete(guard);
+    };
+  }
+
+  /**
+   * Remove the stored verification token, in this tab and in every other open tab
+   * Also forgets this tab's self-declaration. Other tabs re-gate content and protected routes;
+   * listen to 'cleared' to react here
+   */
+  async clearVerification(): Promise<void> {
+    await this.removeToken();
+    await this.sessionStorage.remove(`${this.config.storageKey}_declaration`);
+    await this.memoryStorage.remove(`${this.config.storageKey}_declaration`);
+    this.tabSync?.post({ type: 'cleared' });
+    this.events.emit('cleared', undefined);
+  }
+
   /**
    * Internal method that performs the actual validation
    */
   private async doValidateSession(options?: VerifyOptions): Promise<boolean> {
     // Check if search engine bypass is enabled and user agent is a search engine
-    if (this.config.allowSearchEngineBypass && isSearchEngineBot(this.config.searchEngineDetection)) {
+    if (this.config.allowSearchEngineBypass && isSearchEngineBot(this.config.searchEngineDetection, this.config.botDetection)) {
       if (this.config.debug) {
         console.log('Agemin SDK: Search engine bot detected, bypassing age verification');
       }
       // Return true to allow access without verification
       return true;
     }
-    
-    try {
-      // Check for existing JWT cookie
-      const cookieName = 'agemin_verification';
-      const existingJWT = getCookie(cookieName);
-      
+
+    // Apply jurisdiction rules before looking at the stored token
+    const { region, rule } = this.getJurisdiction();
+    if (rule && !rule.required) {
       if (this.config.debug) {
-        console.log('Agemin SDK: Checking for existing session', { hasJWT: !!existingJWT });
+        console.log(`Agemin SDK: No age check required for region ${region}`);
       }
+      return true;
+    }
+    
+    try {
+      // Check the stored JWT against signature, expiry and the required age threshold
+      const status = await this.checkStoredToken(options);
       
       // If no JWT exists, launch verification
-      if (!existingJWT) {
+      if (status.reason === 'missing_token') {
         if (this.config.debug) {
           console.log('Agemin SDK: No existing JWT, launching verification');
         }
         // Use verifyAndWait to get a promise that resolves when verification completes
         return this.verifyAndWait(options);
       }
-      
-      // Validate the JWT
-      const validationResult = await validateJWT(existingJWT);
-      
-      if (this.config.debug) {
-        console.log('Agemin SDK: JWT validation result', {
-          isValid: validationResult.isValid,
-          isOfAge: validationResult.isOfAge,
-          error: validationResult.error
-        });
-      }
-      
+
       // If JWT is valid and user is of age, return true
-      if (validationResult.isValid && validationResult.isOfAge) {
+      if (status.verified) {
         if (this.config.debug) {
           console.log('Agemin SDK: Valid session exists, user is of age');
         }
+        if (status.expiresAt) {
+          this.expiryWatcher.watch(status.expiresAt);
+        }
         // Don't clear isInitializing here - let completion handlers do it
         return true;
       }
       
-      // If JWT is invalid, expired, or user is not of age, delete cookie and launch verification
+      // If JWT is invalid, expired, not of age or fails the policy, delete it and launch verification
       if (this.config.debug) {
-        console.log('Agemin SDK: Invalid or expired JWT, or user not of age, launching verification');
+        console.log(`Agemin SDK: Stored JWT not accepted (${status.reason}), launching verification`);
       }
       
-      // Delete the invalid/expired cookie
-      deleteCookie(cookieName);
+      // Delete the invalid/expired token
+      await this.removeToken();
       
       // Launch verification and wait for completion
       return this.verifyAndWait(options);
@@ -472,6 +683,219 @@ export class Agemin {
     }
   }
 
+  /**
+   * Inspect the stored verification token without launching any UI
+   * Validates the token (signature, expiry, domain) and checks it against the required age
+   * threshold (jurisdiction, policy or `minimumAge`) and the `policy`.
+   * Read-only: it doesn't wait for consent, move tokens between storages, load FingerprintJS
+   * or emit events, so the device binding is not checked (validateSession() checks it).
+   */
+  async getVerificationStatus(options: Pick<VerifyOptions, 'minimumAge'> = {}): Promise<VerificationStatus> {
+    await this.pendingWrite;
+
+    const key = this.config.storageKey;
+    const token = (await this.tokenStorage.get(key)) || (await this.memoryStorage.get(key));
+    if (!token) {
+      return { ...UNVERIFIED_STATUS, reason: 'missing_token' };
+    }
+
+    // jose is loaded on demand, only when there is a token to check
+    const { validateJWT } = await import('../utils/jwt');
+    const validationResult = await validateJWT(token, {
+      jwksUrl: this.config.jwksUrl,
+      issuer: this.config.issuer,
+      fingerprint: false
+    });
+
+    return this.evaluateToken(validationResult, this.getRequiredAge(options));
+  }
+
+  /**
+   * Check the stored token before validateSession() decides whether to verify
+   * Unlike getVerificationStatus() this honours consent (moving a memory-only token to storage
+   * once it is granted) and checks the device binding
+   */
+  private async checkStoredToken(options: Pick<VerifyOptions, 'minimumAge'> = {}): Promise<VerificationStatus> {
+    const token = await this.readToken();
+
+    if (this.config.debug) {
+      console.log('Agemin SDK: Checking for existing session', { hasJWT: !!token });
+    }
+
+    if (!token) {
+      return { ...UNVERIFIED_STATUS, reason: 'missing_token' };
+    }
+
+    const validationResult = await this.validateToken(token);
+
+    if (this.config.debug) {
+      console.log('Agemin SDK: JWT validation result', {
+        isValid: validationResult.isValid,
+        isOfAge: validationResult.isOfAge,
+        error: validationResult.error
+      });
+    }
+
+    return this.evaluateToken(validationResult, this.getRequiredAge(options));
+  }
+
+  /**
+   * Age threshold a token must have been issued for: the highest of the jurisdiction rule,
+   * the policy and the caller's `minimumAge` (0 when none applies)
+   */
+  private getRequiredAge(options: Pick<VerifyOptions, 'minimumAge'> = {}): number {
+    const { rule } = this.getJurisdiction();
+    const policy = this.config.policy || {};
+    return Math.max(rule?.minimumAge ?? 0, policy.minimumAge ?? 0, options.minimumAge ?? 0);
+  }
+
+  /**
+   * Check a validated token against the required age threshold and the `policy`
+   * Used for stored tokens and for tokens fresh from a verification alike
+   */
+  private evaluateToken(validationResult: TokenValidationResult, minimumAge: number): VerificationStatus {
+    const status: VerificationStatus = { ...UNVERIFIED_STATUS };
+
+    if (!validationResult.isValid || !validationResult.payload) {
+      return { ...status, reason: 'invalid_token' };
+    }
+
+    const { data, exp, iat } = validationResult.payload;
+    status.isOfAge = validationResult.isOfAge;
+    status.ageThreshold = data?.age_threshold ?? null;
+    status.confidence = data?.confidence ?? null;
+    status.faceConfidence = data?.face_confidence ?? null;
+    status.expiresAt = exp ?? null;
+    status.domain = data?.domain ?? null;
+
+    if (!validationResult.isOfAge) {
+      return { ...status, reason: 'underage' };
+    }
+
+    // Tokens issued for a lower threshold than the region, policy or caller requires don't count
+    const policy = this.config.policy || {};
+    if ((status.ageThreshold ?? 0) < minimumAge) {
+      return { ...status, reason: 'below_minimum_age' };
+    }
+
+    if (policy.minFaceConfidence !== undefined && (status.faceConfidence ?? 0) < policy.minFaceConfidence) {
+      return { ...status, reason: 'low_face_confidence' };
+    }
+
+    if (policy.confidence && !policy.confidence.includes(status.confidence ?? '')) {
+      return { ...status, reason: 'confidence_not_allowed' };
+    }
+
+    if (policy.maxTokenAge !== undefined && (!iat || Math.floor(Date.now() / 1000) - iat > policy.maxTokenAge)) {
+      return { ...status, reason: 'token_too_old' };
+    }
+
+    return { ...status, verified: true };
+  }
+
+  /**
+   * Complete a redirect-mode verification on the return page
+   * Reads the outcome from the URL, stores the token, fires the callbacks/events
+   * and removes the parameters from the address bar
+   * @returns true if the visitor passed, false if not, null if the URL has no result.
+   *          Rejects on error or cancellation, like verifyAndWait
+   */
+  async handleRedirectCallback(options: VerifyOptions = {}): Promise<boolean | null> {
+    const redirectResult = readRedirectResult(window.location.href);
+    if (!redirectResult) {
+      return null;
+    }
+
+    // Don't leave the token in the address bar or history
+    window.history.replaceState(window.history.state, '', stripRedirectParams(window.location.href));
+
+    if (this.config.debug) {
+      console.log('Agemin SDK: Handling redirect callback', { status: redirectResult.status });
+    }
+
+    const callbacks: VerificationCallbacks = {
+      onSuccess: options.onSuccess,
+      onAgePass: options.onAgePass,
+      onAgeFail: options.onAgeFail,
+      onError: options.onError,
+      onCancel: options.onCancel,
+      onClose: options.onClose
+    };
+
+    if (redirectResult.status === 'cancel') {
+      if (callbacks.onCancel) {
+        callbacks.onCancel();
+      }
+      this.events.emit('cancel', undefined);
+      throw new Error('Verification cancelled by user');
+    }
+
+    let error = redirectResult.error;
+    let isOfAge: boolean | null = null; // null means no JWT to determine age
+
+    if (redirectResult.jwt) {
+      // URL parameters can be forged, so verify the token before trusting it
+      const validation = await this.validateToken(redirectResult.jwt);
+
+      const requiredAge = this.getRequiredAge(options);
+      const status = this.evaluateToken(validation, requiredAge);
+
+      if (validation.isValid && validation.payload && validation.isOfAge && !status.verified) {
+        error = this.policyError(status, requiredAge);
+      } else if (validation.isValid && validation.payload) {
+        isOfAge = validation.isOfAge;
+        // Take the expiry from the verified token, not the forgeable URL parameter
+        const exp = validation.payload.exp;
+        await this.storeToken(redirectResult.jwt, exp);
+        this.tabSync?.post({ type: 'verified', jwt: redirectResult.jwt, exp });
+      } else {
+        error = {
+          code: 'INVALID_TOKEN',
+          message: validation.error || 'Invalid verification token'
+        };
+      }
+    }
+
+    if (error) {
+      if (callbacks.onError) {
+        callbacks.onError(error);
+      }
+      this.events.emit('error', error);
+      throw error;
+    }
+
+    const result: VerificationResult = {
+      referenceId: this.config.referenceId,
+      completed: true,
+      timestamp: Date.now(),
+      method: 'verification'
+    };
+
+    this.notifyCompletion(result, isOfAge, callbacks);
+
+    return isOfAge === true;
+  }
+
+  /**
+   * Get the visitor's region and the jurisdiction rule that applies to it
+   * The region comes from the `region` config (server hint) or timezone/locale heuristics
+   */
+  getJurisdiction(): Jurisdiction {
+    let region: string | null = this.config.region;
+    let source: Jurisdiction['source'] = region ? 'config' : 'none';
+
+    if (!region && this.config.rules) {
+      region = detectRegion();
+      if (region) source = 'detected';
+    }
+
+    return {
+      region,
+      source,
+      rule: this.config.rules ? matchRule(this.config.rules, region) : null
+    };
+  }
+
   /**
    * Get SDK version
    */
@@ -486,6 +910,16 @@ export class Agemin {
     return isSupported();
   }
   
+  /**
+   * Run the crawler detection and report which signals fired
+   * Takes the same `searchEngineDetection` and `botDetection` options as the constructor
+   */
+  static detectBot(
+    config: Pick<AgeminConfig, 'searchEngineDetection' | 'botDetection'> = {}
+  ): BotDetectionReport {
+    return detectBot(config.searchEngineDetection || DEFAULT_CONFIG.searchEngineDetection, config.botDetection);
+  }
+  
   /**
    * Check if verification is currently active
    */
@@ -537,6 +971,7 @@ export class Agemin {
           if (instance.modal) {
             instance.modal.close();
           }
+          instance.popup?.close();
           delete window.__AGEMIN__.instances[assetId];
         }
         delete window.__AGEMIN__.instanceCreationInProgress[assetId];
@@ -547,6 +982,7 @@ export class Agemin {
           if (instance?.modal) {
             instance.modal.close();
           }
+          instance?.popup?.close();
         }
         window.__AGEMIN__.instances = {};
         window.__AGEMIN__.instanceCreationInProgress = {};
@@ -580,13 +1016,21 @@ export class Agemin {
   private setupMessageListener(): void {
     window.addEventListener('message', (event: MessageEvent) => {
       // Verify origin
-      if (!isTrustedOrigin(event.origin)) {
+      if (!isTrustedOrigin(event.origin, this.getTrustedOrigins())) {
         if (this.config.debug) {
           console.warn('Agemin SDK: Untrusted origin', event.origin);
         }
         return;
       }
 
+      // Only accept messages from the SDK's own verification window
+      if (!this.isVerificationSource(event.source)) {
+        if (this.config.debug) {
+          console.warn('Agemin SDK: Ignoring message from unknown window', event.origin);
+        }
+        return;
+      }
+
       const message = parseMessage(event);
       if (!message) return;
 
@@ -648,6 +1092,60 @@ export class Agemin {
     });
   }
 
+  /**
+   * Origins allowed to post verification messages (exact match)
+   */
+  private getTrustedOrigins(): string[] {
+    const origins = [...this.config.trustedOrigins];
+
+    const baseOrigin = normalizeOrigin(this.config.baseUrl);
+    if (baseOrigin) origins.push(baseOrigin);
+
+    if (this.config.verificationURL) {
+      const verificationOrigin = normalizeOrigin(this.config.verificationURL);
+      if (verificationOrigin) origins.push(verificationOrigin);
+    }
+
+    return origins;
+  }
+
+  /**
+   * Resolve the host element for inline mode (options > config)
+   */
+  private resolveContainer(options: VerifyOptions): HTMLElement {
+    const container = options.container || this.config.container;
+    if (!container) {
+      throw new Error('Agemin SDK: container is required for inline mode');
+    }
+
+    const element = typeof container === 'string'
+      ? document.querySelector<HTMLElement>(container)
+      : container;
+    if (!element) {
+      throw new Error(`Agemin SDK: inline container not found: ${container}`);
+    }
+
+    return element;
+  }
+
+  /**
+   * Window the verification app runs in (modal iframe or popup)
+   */
+  private getVerificationWindow(): Window | null {
+    const iframe = this.modal.getWindow();
+    if (iframe && iframe.contentWindow) {
+      return iframe.contentWindow;
+    }
+    return this.popup.getWindow();
+  }
+
+  /**
+   * Check that a message comes from the iframe or popup opened by this SDK
+   */
+  private isVerificationSource(source: MessageEventSource | null): boolean {
+    return !!source && source === this.getVerificationWindow();
+  }
+
   private buildVerificationUrl(referenceId: string, options: VerifyOptions, fingerprint?: string): string {
     // Use verificationURL template if provided, otherwise construct from baseUrl
     let baseUrl: string;
@@ -684,6 +1182,22 @@ export class Agemin {
     // Add device fingerprint if available
     if (fingerprint) {
       params.fp = fingerprint;
+      // The stored token is bound to an older fingerprint: this verification rebinds it
+      if (this.staleBinding) {
+        params.rebind = 'true';
+      }
+    }
+
+    // Ask for a token issued for the age threshold this page requires
+    const minimumAge = this.getRequiredAge(options);
+    if (minimumAge) {
+      params.minimum_age = minimumAge;
+    }
+
+    // Redirect flows (and popups that fall back to redirect) return here by default
+    const mode = options.mode || this.config.mode || getDefaultMode();
+    if (mode === 'redirect' || mode === 'popup') {
+      params.return_url = window.location.href;
     }
 
     if (this.config.errorUrl) params.error_url = this.config.errorUrl;
@@ -703,12 +1217,16 @@ export class Agemin {
     return buildUrl(baseUrl, params);
   }
 
-  private async handleSuccess(data: any): Promise<void> {
+  /**
+   * @param broadcast - Share the token with other tabs (false when it came from one)
+   */
+  private async handleSuccess(data: any, broadcast: boolean = true): Promise<void> {
     if (this.config.debug) {
       console.log('Agemin SDK: Verification process completed', data);
     }
 
     let isOfAge: boolean | null = null; // null means no JWT to determine age
+    let policyStatus: VerificationStatus | null = null;
 
     if (this.config.debug) {
       console.log('Agemin SDK: Checking for JWT in data:', { hasJWT: !!data?.jwt, dataKeys: Object.keys(data || {}) });
@@ -716,20 +1234,20 @@ export class Agemin {
 
     // Store JWT as cookie if provided and decode it
     if (data?.jwt) {
-      const cookieName = 'agemin_verification';
-      
       if (this.config.debug) {
         console.log('Agemin SDK: JWT present, attempting to decode');
       }
       
       // Decode the JWT to check if user passed
       try {
+        const { decodeJWT } = await import('../utils/jwt');
         const decoded = decodeJWT(data.jwt);
         if (this.config.debug) {
           console.log('Agemin SDK: JWT decode result:', decoded);
         }
         if (decoded) {
           isOfAge = decoded.data?.is_of_age === true;
+          policyStatus = this.evaluateToken({ isValid: true, isOfAge, payload: decoded }, this.requiredAge);
           
           if (this.config.debug) {
             console.log('Agemin SDK: JWT decoded, is_of_age:', isOfAge);
@@ -739,31 +1257,23 @@ export class Agemin {
         console.error('Agemin SDK: Failed to decode JWT', error);
       }
       
-      // Store the cookie
+      // An of-age token that misses the required threshold or policy would be rejected by the
+      // next validateSession and trigger another verification - fail instead of looping
+      if (isOfAge && policyStatus && !policyStatus.verified) {
+        this.handleError(this.policyError(policyStatus, this.requiredAge), false);
+        return;
+      }
+      
+      // Store the token (async adapters finish in the background; reads wait for it)
       if (data?.exp !== undefined && data?.jwt) {
-        const now = Math.floor(Date.now() / 1000);
-        const secondsUntilExpiration = data.exp - now;
-        
-        if (this.config.debug) {
-          console.log(`Agemin SDK: Cookie storage - exp: ${data.exp}, now: ${now}, seconds until exp: ${secondsUntilExpiration}`);
-        }
-        
-        if (data.exp === null || data.exp === 0 || secondsUntilExpiration <= 0) {
-          // Session cookie - no expiration or already expired means session-only
-          setCookie(cookieName, data.jwt, null);
-          if (this.config.debug) {
-            console.log('Agemin SDK: Stored session JWT cookie (session-only)');
-          }
-        } else {
-          // Set cookie with expiration
-          setCookie(cookieName, data.jwt, secondsUntilExpiration);
-          if (this.config.debug) {
-            console.log(`Agemin SDK: Stored JWT cookie, expires in ${secondsUntilExpiration} seconds`);
-          }
+        // Other tabs may re-read the token from storage, so tell them once it is written
+        const stored = this.storeToken(data.jwt, data.exp);
+        if (broadcast) {
+          stored.then(() => this.tabSync?.post({ type: 'verified', jwt: data.jwt, exp: data.exp }));
         }
       } else {
         if (this.config.debug) {
-          console.log('Agemin SDK: Not storing cookie - missing exp or jwt');
+          console.log('Agemin SDK: Not storing token - missing exp or jwt');
         }
       }
     } else {
@@ -776,18 +1286,215 @@ export class Agemin {
     const result: VerificationResult = {
       referenceId: this.config.referenceId,
       completed: true,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      method: 'verification'
     };
 
+    // close() clears the callbacks, so keep them for notification
+    const callbacks = this.callbacks;
     this.close();
 
+    this.notifyCompletion(result, isOfAge, callbacks);
+
+    // Navigate if URLs are configured (only if we know the age result)
+    if (isOfAge === true && this.config.successUrl) {
+      window.location.href = this.config.successUrl;
+    } else if (isOfAge === false && this.config.errorUrl) {
+      window.location.href = this.config.errorUrl;
+    }
+    
+    // Resolve the promise (true if age verified and of age, false otherwise)
+    const verificationPassed = isOfAge === true;
+    if (window.__AGEMIN__.verificationResolve) {
+      window.__AGEMIN__.verificationResolve(verificationPassed);
+    }
+    
+    this.finishVerification();
+  }
+
+  /**
+   * Store a verification JWT with the configured storage adapter
+   * @param exp - Expiration (seconds since epoch); null, 0 or past means session-only
+   */
+  private storeToken(jwt: string, exp: number | null): Promise<void> {
+    const key = this.config.storageKey;
+    const now = Math.floor(Date.now() / 1000);
+    const secondsUntilExpiration = exp === null ? 0 : exp - now;
+    
+    if (this.config.debug) {
+      console.log(`Agemin SDK: Token storage - exp: ${exp}, now: ${now}, seconds until exp: ${secondsUntilExpiration}`);
+    }
+    
+    // No expiration or already expired means session-only
+    const sessionOnly = exp === null || exp === 0 || secondsUntilExpiration <= 0;
+    
+    if (!sessionOnly) {
+      this.expiryWatcher.watch(exp);
+    }
+    
+    // A fresh token is bound to the fingerprint this verification was started with
+    this.staleBinding = false;
+    
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.getTokenStorage())
+      .then(storage => storage.set(key, jwt, sessionOnly ? null : secondsUntilExpiration))
+      .then(() => {
+        if (this.config.debug) {
+          console.log(sessionOnly
+            ? 'Agemin SDK: Stored session JWT (session-only)'
+            : `Agemin SDK: Stored JWT, expires in ${secondsUntilExpiration} seconds`);
+        }
+      })
+      .catch(error => {
+        console.error('Agemin SDK: Failed to store verification token', error);
+      });
+    
+    return this.pendingWrite;
+  }
+
+  /**
+   * Read the stored verification JWT, after any pending write has finished
+   */
+  private async readToken(): Promise<string | null> {
+    await this.pendingWrite;
+    
+    const key = this.config.storageKey;
+    const storage = await this.getTokenStorage();
+    const token = await storage.get(key);
+    if (token || storage === this.memoryStorage) {
+      return token || null;
+    }
+    
+    // Kept in memory before storage consent was granted: move it to the configured storage
+    const pendingToken = await this.memoryStorage.get(key);
+    if (pendingToken) {
+      await this.memoryStorage.remove(key);
+      const { decodeJWT } = await import('../utils/jwt');
+      await this.storeToken(pendingToken, decodeJWT(pendingToken)?.exp ?? null);
+    }
+    return pendingToken || null;
+  }
+
+  /**
+   * Storage for self-declarations: the session, or memory only without storage consent
+   */
+  private async getDeclarationStorage(): Promise<TokenStorageAdapter> {
+    const storage = await this.getTokenStorage();
+    return storage === this.memoryStorage ? this.memoryStorage : this.sessionStorage;
+  }
+
+  /**
+   * Declaration remembered for a jurisdiction rule (`region:age`), or null if the visitor wasn't asked yet
+   */
+  private async readDeclaration(rule: string): Promise<boolean | null> {
+    const storage = await this.getDeclarationStorage();
+    const stored = await storage.get(`${this.config.storageKey}_declaration`);
+    try {
+      const declaration = stored ? JSON.parse(stored) : null;
+      return declaration?.rule === rule ? declaration.declaredOfAge === true : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async storeDeclaration(rule: string, declaredOfAge: boolean): Promise<void> {
+    const storage = await this.getDeclarationStorage();
+    await storage.set(`${this.config.storageKey}_declaration`, JSON.stringify({ rule, declaredOfAge }), null);
+  }
+
+  /**
+   * Current consent state, shared by every check until the visitor acts in the CMP again
+   * Custom providers are asked each time, since the SDK can't tell when their answer changes
+   */
+  private getConsent(): Promise<ConsentState> {
+    if (typeof this.config.consent?.provider === 'function') {
+      return resolveConsent(this.config.consent);
+    }
+    
+    if (!this.consentState) {
+      this.consentState = resolveConsent(this.config.consent, () => {
+        this.consentState = null;
+      });
+    }
+    return this.consentState;
+  }
+
+  /**
+   * Storage adapter allowed by the visitor's consent
+   * Without storage consent tokens are kept in memory only
+   */
+  private async getTokenStorage(): Promise<TokenStorageAdapter> {
+    if (!this.config.consent) {
+      return this.tokenStorage;
+    }
+    
+    const consent = await this.getConsent();
+    if (!consent.storage && this.config.debug) {
+      console.log('Agemin SDK: No storage consent, keeping verification token in memory');
+    }
+    return consent.storage ? this.tokenStorage : this.memoryStorage;
+  }
+
+  /**
+   * Validate a token against the page, checking the device binding only if fingerprinting is consented
+   */
+  private async validateToken(token: string): Promise<TokenValidationResult> {
+    const consent = await this.getConsent();
+    // jose is loaded on demand, only when there is a token to check
+    const { validateJWT } = await import('../utils/jwt');
+    const result = await validateJWT(token, {
+      jwksUrl: this.config.jwksUrl,
+      issuer: this.config.issuer,
+      fingerprint: consent.fingerprint ? this.config.fingerprint : false,
+      fingerprintMismatch: this.config.fingerprintMismatch
+    });
+
+    // Fingerprint drift was tolerated by the mismatch policy
+    if (result.fingerprintMismatch) {
+      if (this.config.fingerprintMismatch !== 'warn') {
+        this.staleBinding = true;
+      }
+      this.events.emit('fingerprintMismatch', undefined);
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove the stored verification JWT
+   */
+  private removeToken(): Promise<void> {
+    this.expiryWatcher.stop();
+    
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await this.tokenStorage.remove(this.config.storageKey);
+        await this.memoryStorage.remove(this.config.storageKey);
+      })
+      .catch(error => {
+        console.error('Agemin SDK: Failed to remove verification token', error);
+      });
+    
+    return this.pendingWrite;
+  }
+
+  /**
+   * Call completion callbacks and emit events
+   * @param isOfAge - null when no JWT was available to determine the age result
+   */
+  private notifyCompletion(
+    result: VerificationResult,
+    isOfAge: boolean | null,
+    callbacks: VerificationCallbacks = this.callbacks
+  ): void {
     // Always call onSuccess first (verification process completed)
-    if (this.callbacks.onSuccess) {
+    if (callbacks.onSuccess) {
       if (this.config.debug) {
         console.log('Agemin SDK: Calling onSuccess (verification completed)');
       }
-      this.callbacks.onSuccess(result);
+      callbacks.onSuccess(result);
     }
+    this.events.emit('success', result);
 
     // If JWT was present and decoded, call age-specific callbacks
     if (isOfAge !== null) {
@@ -795,36 +1502,102 @@ export class Agemin {
         if (this.config.debug) {
           console.log('Agemin SDK: User is of age, calling onAgePass');
         }
-        if (this.callbacks.onAgePass) {
-          this.callbacks.onAgePass(result);
+        if (callbacks.onAgePass) {
+          callbacks.onAgePass(result);
         }
+        this.events.emit('agePass', result);
       } else {
         if (this.config.debug) {
           console.log('Agemin SDK: User is not of age, calling onAgeFail');
         }
-        if (this.callbacks.onAgeFail) {
-          this.callbacks.onAgeFail(result);
+        if (callbacks.onAgeFail) {
+          callbacks.onAgeFail(result);
         }
+        this.events.emit('ageFail', result);
       }
     } else {
       if (this.config.debug) {
         console.log('Agemin SDK: No JWT present (strong API security mode) - age result must be checked server-side');
       }
     }
+  }
 
-    // Navigate if URLs are configured (only if we know the age result)
-    if (isOfAge === true && this.config.successUrl) {
-      window.location.href = this.config.successUrl;
-    } else if (isOfAge === false && this.config.errorUrl) {
-      window.location.href = this.config.errorUrl;
+  /**
+   * Apply a verification outcome from another tab
+   */
+  private async handleTabSyncMessage(message: TabSyncMessage): Promise<void> {
+    if (this.config.debug) {
+      console.log('Agemin SDK: Received verification update from another tab', message.type);
     }
-    
-    // Resolve the promise (true if age verified and of age, false otherwise)
-    const verificationPassed = isOfAge === true;
-    if (window.__AGEMIN__.verificationResolve) {
-      window.__AGEMIN__.verificationResolve(verificationPassed);
+
+    if (message.type === 'verified') {
+      if (!message.jwt) {
+        // Notification without the token (localStorage fallback): read it from our own storage
+        const jwt = await this.readToken();
+        if (jwt && (this.isOpen() || window.__AGEMIN__.isVerifying)) {
+          const { decodeJWT } = await import('../utils/jwt');
+          await this.handleSuccess({ jwt, exp: decodeJWT(jwt)?.exp ?? null }, false);
+        }
+      } else if (this.isOpen() || window.__AGEMIN__.isVerifying) {
+        // Finish our own pending verification with the other tab's token
+        await this.handleSuccess({ jwt: message.jwt, exp: message.exp ?? null }, false);
+      } else {
+        await this.storeToken(message.jwt, message.exp ?? null);
+      }
+      return;
     }
-    
+
+    // Cleared elsewhere: drop any copy we keep (e.g. memory storage) and gate again
+    await this.removeToken();
+    this.events.emit('cleared', undefined);
+    this.regate();
+  }
+
+  /**
+   * Hide content revealed by gate() and re-check protected routes
+   */
+  private regate(): void {
+    this.routeGuards.forEach(guard => guard.recheck());
+
+    if (this.revealedGate) {
+      const gateOptions = this.revealedGate;
+      this.revealedGate = null;
+      this.gate(gateOptions);
+    }
+  }
+
+  private handleTokenExpiring(expiresAt: number): void {
+    const secondsLeft = Math.max(0, expiresAt - Math.floor(Date.now() / 1000));
+    if (this.config.debug) {
+      console.log(`Agemin SDK: Verification token expires in ${secondsLeft} seconds`);
+    }
+    this.events.emit('expiring', { expiresAt, secondsLeft });
+  }
+
+  private handleTokenExpired(expiresAt: number): void {
+    if (this.config.debug) {
+      console.log('Agemin SDK: Verification token expired');
+    }
+    this.events.emit('expired', { expiresAt, secondsLeft: 0 });
+
+    switch (this.config.expiry.action) {
+      case 'revalidate':
+        this.validateSession().catch(error => {
+          if (this.config.debug) {
+            console.log('Agemin SDK: Re-verification after expiry did not complete', error);
+          }
+        });
+        break;
+      case 'regate':
+        this.regate();
+        break;
+    }
+  }
+
+  /**
+   * Reset global verification state once a verification has settled
+   */
+  private finishVerification(): void {
     // Reset global verification state
     window.__AGEMIN__.isVerifying = false;
     window.__AGEMIN__.verificationPromise = null;
@@ -837,16 +1610,42 @@ export class Agemin {
     Agemin.isVerificationActive = false;
   }
 
-  private handleError(error: VerificationError): void {
+  /**
+   * Error for a verification whose token doesn't meet the required age threshold or policy
+   */
+  private policyError(status: VerificationStatus, requiredAge: number): VerificationError {
+    return {
+      code: 'POLICY_NOT_MET',
+      message: `Verification token does not meet the required policy (${status.reason})`,
+      details: {
+        reason: status.reason,
+        ageThreshold: status.ageThreshold,
+        requiredAge
+      }
+    };
+  }
+
+  /**
+   * @param allowFallback - Use the self-declaration fallback if configured (technical errors only)
+   */
+  private handleError(error: VerificationError, allowFallback: boolean = true): void {
     if (this.config.debug) {
       console.error('Agemin SDK: Technical error occurred - consider showing fallback age confirmation', error);
     }
 
+    // close() clears the callbacks, so keep them for notification
+    const callbacks = this.callbacks;
     this.close();
 
-    if (this.callbacks.onError) {
-      this.callbacks.onError(error);
+    if (allowFallback && this.config.fallback === 'self-declare') {
+      this.handleSelfDeclaration(callbacks, 'fallback');
+      return;
+    }
+
+    if (callbacks.onError) {
+      callbacks.onError(error);
     }
+    this.events.emit('error', error);
 
     if (this.config.errorUrl) {
       window.location.href = this.config.errorUrl;
@@ -857,16 +1656,57 @@ export class Agemin {
       window.__AGEMIN__.verificationReject(error);
     }
     
-    // Reset global verification state
-    window.__AGEMIN__.isVerifying = false;
-    window.__AGEMIN__.verificationPromise = null;
-    window.__AGEMIN__.referenceId = null;
-    window.__AGEMIN__.isInitializing = false;
-    window.__AGEMIN__.verificationResolve = null;
-    window.__AGEMIN__.verificationReject = null;
-    
-    // Clear singleton verification flag
-    Agemin.isVerificationActive = false;
+    this.finishVerification();
+  }
+
+  /**
+   * Ask the visitor to self-declare their age
+   * Resolves the verification with the declaration, marked as 'self_declared'. Declarations
+   * required by a jurisdiction rule are remembered for the session, for that region and age.
+   * @param age - Age asked for: the required threshold (rule, policy or `minimumAge`), else `selfDeclareAge`
+   */
+  private async handleSelfDeclaration(
+    callbacks: VerificationCallbacks,
+    reason: SelfDeclareReason,
+    age: number = this.requiredAge || this.config.selfDeclareAge
+  ): Promise<void> {
+    const declarationRule = reason === 'jurisdiction' ? `${this.getJurisdiction().region}:${age}` : null;
+    let declaredOfAge = declarationRule ? await this.readDeclaration(declarationRule) : null;
+
+    if (declaredOfAge === null) {
+      if (this.config.debug) {
+        console.log(`Agemin SDK: Showing self-declaration dialog (${reason})`);
+      }
+
+      const locale = this.config.locale === 'auto' ? getBrowserLanguage() : this.config.locale;
+      declaredOfAge = await this.selfDeclareDialog.show({
+        age,
+        reason,
+        theme: this.config.theme,
+        locale
+      });
+
+      if (declarationRule) {
+        await this.storeDeclaration(declarationRule, declaredOfAge);
+      }
+    } else if (this.config.debug) {
+      console.log('Agemin SDK: Using the self-declaration from earlier in this session');
+    }
+
+    const result: VerificationResult = {
+      referenceId: this.config.referenceId,
+      completed: true,
+      timestamp: Date.now(),
+      method: 'self_declared'
+    };
+
+    this.notifyCompletion(result, declaredOfAge, callbacks);
+
+    if (window.__AGEMIN__.verificationResolve) {
+      window.__AGEMIN__.verificationResolve(declaredOfAge);
+    }
+
+    this.finishVerification();
   }
 
   private handleCancel(): void {
@@ -874,15 +1714,20 @@ export class Agemin {
       console.log('Agemin SDK: Verification cancelled');
     }
 
+    // cleanup() clears the callbacks, so keep them for notification
+    const callbacks = this.callbacks;
+    this.popup.close();
     this.cleanup();
 
-    if (this.callbacks.onCancel) {
-      this.callbacks.onCancel();
+    if (callbacks.onCancel) {
+      callbacks.onCancel();
     }
+    this.events.emit('cancel', undefined);
 
-    if (this.callbacks.onClose) {
-      this.callbacks.onClose();
+    if (callbacks.onClose) {
+      callbacks.onClose();
     }
+    this.events.emit('close', undefined);
 
     if (this.config.cancelUrl) {
       window.location.href = this.config.cancelUrl;
@@ -893,16 +1738,7 @@ export class Agemin {
       window.__AGEMIN__.verificationReject(new Error('Verification cancelled by user'));
     }
     
-    // Reset global verification state
-    window.__AGEMIN__.isVerifying = false;
-    window.__AGEMIN__.verificationPromise = null;
-    window.__AGEMIN__.referenceId = null;
-    window.__AGEMIN__.isInitializing = false;
-    window.__AGEMIN__.verificationResolve = null;
-    window.__AGEMIN__.verificationReject = null;
-    
-    // Clear singleton verification flag
-    Agemin.isVerificationActive = false;
+    this.finishVerification();
   }
 
   private handleReady(): void {
@@ -913,10 +1749,10 @@ export class Agemin {
     // Hide loading spinner and show iframe
     this.modal.hideLoading();
 
-    // Send configuration to iframe if needed
-    const iframe = this.modal.getWindow();
-    if (iframe && iframe instanceof HTMLIFrameElement && iframe.contentWindow) {
-      iframe.contentWindow.postMessage({
+    // Send configuration to the verification window if needed
+    const verificationWindow = this.getVerificationWindow();
+    if (verificationWindow) {
+      verificationWindow.postMessage({
         type: 'agemin:config',
         data: {
           theme: this.config.theme,
@@ -950,78 +1786,86 @@ export class Agemin {
     // Send initial configuration to app
     this.handleReady();
 
-    // Emit event if listener is registered
-    if (this.appEventListeners.onAppReady) {
-      this.appEventListeners.onAppReady();
-    }
+    this.events.emit('appReady', undefined);
   }
 
-  private handleProgress(data: { percentage: number; stage?: string; message?: string }): void {
+  private handleProgress(data: ProgressData): void {
     if (this.config.debug) {
       console.log('Agemin SDK: Progress update', data);
     }
 
-    // Emit progress event if listener is registered
-    if (this.appEventListeners.onProgress) {
-      this.appEventListeners.onProgress(data);
-    }
+    this.events.emit('progress', data);
   }
 
-  private handleStateChange(data: { from: string; to: string; data?: any }): void {
+  private handleStateChange(data: StateChangeData): void {
     if (this.config.debug) {
       console.log('Agemin SDK: State change', data);
     }
 
-    // Emit state change event if listener is registered
-    if (this.appEventListeners.onStateChange) {
-      this.appEventListeners.onStateChange(data);
-    }
+    this.events.emit('stateChange', data);
   }
 
-  private handleUserAction(data: { type: string; target?: string; data?: any }): void {
+  private handleUserAction(data: UserActionData): void {
     if (this.config.debug) {
       console.log('Agemin SDK: User action', data);
     }
 
-    // Emit user action event if listener is registered
-    if (this.appEventListeners.onUserAction) {
-      this.appEventListeners.onUserAction(data);
-    }
+    this.events.emit('userAction', data);
+  }
+
+  /**
+   * Register a listener for an SDK event
+   * Any number of listeners can be registered per event
+   * @returns Function that removes the listener
+   */
+  on<K extends AgeminEventName>(event: K, handler: AgeminEventHandler<K>): Unsubscribe {
+    return this.events.on(event, handler as (data: AgeminEventMap[K]) => void);
+  }
+
+  /**
+   * Register a listener that is called at most once
+   * @returns Function that removes the listener
+   */
+  once<K extends AgeminEventName>(event: K, handler: AgeminEventHandler<K>): Unsubscribe {
+    return this.events.once(event, handler as (data: AgeminEventMap[K]) => void);
   }
 
-  // Event listeners for app events
-  private appEventListeners: {
-    onAppReady?: () => void;
-    onProgress?: (data: { percentage: number; stage?: string; message?: string }) => void;
-    onStateChange?: (data: { from: string; to: string; data?: any }) => void;
-    onUserAction?: (data: { type: string; target?: string; data?: any }) => void;
-  } = {};
+  /**
+   * Remove a listener registered with on()
+   */
+  off<K extends AgeminEventName>(event: K, handler: AgeminEventHandler<K>): void {
+    this.events.off(event, handler as (data: AgeminEventMap[K]) => void);
+  }
 
   /**
    * Register a callback for when the app is ready
+   * Shorthand for on('appReady', callback)
    */
-  onAppReady(callback: () => void): void {
-    this.appEventListeners.onAppReady = callback;
+  onAppReady(callback: () => void): Unsubscribe {
+    return this.on('appReady', callback);
   }
 
   /**
    * Register a callback for progress updates
+   * Shorthand for on('progress', callback)
    */
-  onProgress(callback: (data: { percentage: number; stage?: string; message?: string }) => void): void {
-    this.appEventListeners.onProgress = callback;
+  onProgress(callback: (data: ProgressData) => void): Unsubscribe {
+    return this.on('progress', callback);
   }
 
   /**
    * Register a callback for state changes
+   * Shorthand for on('stateChange', callback)
    */
-  onStateChange(callback: (data: { from: string; to: string; data?: any }) => void): void {
-    this.appEventListeners.onStateChange = callback;
+  onStateChange(callback: (data: StateChangeData) => void): Unsubscribe {
+    return this.on('stateChange', callback);
   }
 
   /**
    * Register a callback for user actions
+   * Shorthand for on('userAction', callback)
    */
-  onUserAction(callback: (data: { type: string; target?: string; data?: any }) => void): void {
-    this.appEventListeners.onUserAction = callback;
+  onUserAction(callback: (data: UserActionData) => void): Unsubscribe {
+    return this.on('userAction', callback);
   }
 }
@@ -0,0 +1,86 @@
+import { GateStrategy } from '../types';
+import { addStyles, removeElement } from '../utils/dom';
+import { GATE_STYLES } from '../utils/constants';
+
+/**
+ * Hides page content until the visitor is verified
+ * Styles are injected synchronously, so calling apply() from a <head> script
+ * takes effect before the first paint
+ */
+export class ContentGate {
+  private selector: string;
+  private strategy: GateStrategy;
+  private removed: Array<{ element: Element; placeholder: Comment }> = [];
+  private inertElements: Element[] = [];
+  private readyHandler: (() => void) | null = null;
+  private active: boolean = false;
+  
+  constructor(selectors: string | string[], strategy: GateStrategy) {
+    this.selector = Array.isArray(selectors) ? selectors.join(', ') : selectors;
+    this.strategy = strategy;
+  }
+  
+  apply(): void {
+    if (this.active) return;
+    this.active = true;
+    
+    addStyles('agemin-gate-styles', `${this.selector} { ${GATE_STYLES[this.strategy]} }`);
+    
+    // Elements may not be parsed yet - finish once the DOM is ready
+    if (document.readyState === 'loading') {
+      this.readyHandler = () => {
+        this.readyHandler = null;
+        this.lockElements();
+      };
+      document.addEventListener('DOMContentLoaded', this.readyHandler);
+    } else {
+      this.lockElements();
+    }
+  }
+  
+  /**
+   * Make gated elements unreachable: detach them ('remove') or make them inert
+   */
+  private lockElements(): void {
+    if (!this.active) return;
+    
+    document.querySelectorAll(this.selector).forEach(element => {
+      if (this.strategy === 'remove') {
+        if (!element.parentNode) return;
+        const placeholder = document.createComment('agemin-gate');
+        element.parentNode.replaceChild(placeholder, element);
+        this.removed.push({ element, placeholder });
+      } else if (!element.hasAttribute('inert')) {
+        // Keep keyboard and assistive technology out of blurred/hidden content
+        element.setAttribute('inert', '');
+        this.inertElements.push(element);
+      }
+    });
+  }
+  
+  reveal(): void {
+    if (!this.active) return;
+    this.active = false;
+    
+    if (this.readyHandler) {
+      document.removeEventListener('DOMContentLoaded', this.readyHandler);
+      this.readyHandler = null;
+    }
+    
+    this.removed.forEach(({ element, placeholder }) => {
+      if (placeholder.parentNode) {
+        placeholder.parentNode.replaceChild(element, placeholder);
+      }
+    });
+    this.removed = [];
+    
+    this.inertElements.forEach(element => element.removeAttribute('inert'));
+    this.inertElements = [];
+    
+    removeElement('agemin-gate-styles');
+  }
+  
+  isActive(): boolean {
+    return this.active;
+  }
+}
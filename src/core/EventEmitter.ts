@@ -0,0 +1,78 @@
+/**
+ * Listener as stored; once() wrappers keep the original handler so off() can find them
+ */
+type Listener<T> = ((data: T) => void) & { listener?: (data: T) => void };
+
+/**
+ * Minimal typed event emitter supporting multiple listeners per event
+ */
+export class EventEmitter<Events extends { [K in keyof Events]: unknown }> {
+  private listeners: { [K in keyof Events]?: Array<Listener<Events[K]>> } = {};
+  
+  /**
+   * Register a listener
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, handler: (data: Events[K]) => void): () => void {
+    const handlers = this.listeners[event] || (this.listeners[event] = []);
+    handlers.push(handler);
+    return () => this.off(event, handler);
+  }
+  
+  /**
+   * Register a listener that is removed after its first call
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, handler: (data: Events[K]) => void): () => void {
+    const wrapper: Listener<Events[K]> = (data: Events[K]) => {
+      this.off(event, wrapper);
+      handler(data);
+    };
+    wrapper.listener = handler;
+    this.on(event, wrapper);
+    return () => this.off(event, wrapper);
+  }
+  
+  /**
+   * Remove a listener (no-op if not registered)
+   * Also removes a listener registered with once()
+   */
+  off<K extends keyof Events>(event: K, handler: (data: Events[K]) => void): void {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+    
+    const index = handlers.findIndex(h => h === handler || h.listener === handler);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+  }
+  
+  /**
+   * Call every listener for an event
+   * A throwing listener is logged and does not prevent the others from running
+   */
+  emit<K extends keyof Events>(event: K, data: Events[K]): void {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+    
+    // Copy so listeners can unsubscribe while being called
+    handlers.slice().forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Agemin SDK: Error in "${String(event)}" listener`, error);
+      }
+    });
+  }
+  
+  /**
+   * Remove all listeners, optionally for a single event
+   */
+  removeAllListeners(event?: keyof Events): void {
+    if (event) {
+      delete this.listeners[event];
+    } else {
+      this.listeners = {};
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// setTimeout fires immediately for delays above 2^31-1 ms (~24.8 days)
+const MAX_TIMEOUT = 2147483647;
+
+/**
+ * Fires callbacks shortly before and at a token's expiry
+ * Timers are re-armed when the tab becomes visible, since browsers throttle
+ * or suspend them in background tabs and during sleep.
+ */
+export class ExpiryWatcher {
+  private expiresAt: number | null = null;
+  private warned: boolean = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private visibilityHandler: (() => void) | null = null;
+  
+  constructor(
+    private leadSeconds: number,
+    private onExpiring: (expiresAt: number) => void,
+    private onExpired: (expiresAt: number) => void
+  ) {}
+  
+  /**
+   * Watch a token expiring at `exp` (seconds since epoch)
+   */
+  watch(exp: number): void {
+    if (exp === this.expiresAt) return;
+    
+    this.stop();
+    this.expiresAt = exp;
+    this.warned = false;
+    
+    this.visibilityHandler = () => {
+      if (document.visibilityState === 'visible') this.arm();
+    };
+    document.addEventListener('visibilitychange', this.visibilityHandler);
+    
+    this.arm();
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.visibilityHandler) {
+      document.removeEventListener('visibilitychange', this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+    this.expiresAt = null;
+  }
+  
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.expiresAt === null) return;
+    
+    const expiresAt = this.expiresAt;
+    const now = Date.now();
+    const expiresAtMs = expiresAt * 1000;
+    const warnAtMs = expiresAtMs - this.leadSeconds * 1000;
+    
+    if (now >= expiresAtMs) {
+      this.stop();
+      this.onExpired(expiresAt);
+      return;
+    }
+    
+    if (!this.warned && now >= warnAtMs) {
+      this.warned = true;
+      this.onExpiring(expiresAt);
+    }
+    
+    const next = this.warned ? expiresAtMs : warnAtMs;
+    this.timer = setTimeout(() => this.arm(), Math.min(next - now, MAX_TIMEOUT));
+  }
+}
@@ -6,6 +6,7 @@ import {
 import { 
   MODAL_STYLES,
   MOBILE_MODAL_STYLES, 
+  INLINE_STYLES,
   ANIMATIONS,
   SPINNER_STYLES
 } from '../utils/constants';
@@ -15,6 +16,7 @@ export class Modal {
   private verificationWindow: HTMLIFrameElement | null = null;
   private escKeyHandler: ((e: KeyboardEvent) => void) | null = null;
   private loadingSpinner: HTMLDivElement | null = null;
+  private inline: boolean = false;
   
   constructor() {
     this.setupStyles();
@@ -119,6 +121,40 @@ export class Modal {
     }
   }
   
+  /**
+   * Mount the verification iframe inside a host element
+   * No overlay, scroll locking or close button - the host page owns the layout
+   */
+  openInline(container: HTMLElement, url: string): void {
+    // Check if verification iframe already exists
+    if (document.getElementById('agemin-iframe')) {
+      console.warn('Agemin SDK: Verification iframe already exists, not creating another one');
+      return;
+    }
+    
+    this.inline = true;
+    
+    const wrapper = createElement('div', { id: 'agemin-inline' }, INLINE_STYLES.container);
+    
+    // Create loading spinner
+    this.loadingSpinner = createElement('div', { id: 'agemin-spinner-container' }, SPINNER_STYLES.container) as HTMLDivElement;
+    const spinner = createElement('div', { id: 'agemin-spinner' }, SPINNER_STYLES.spinnerMobile);
+    this.loadingSpinner.appendChild(spinner);
+    
+    // Create iframe (initially hidden)
+    const iframe = createElement('iframe', {
+      id: 'agemin-iframe',
+      src: url,
+      allow: 'camera; microphone'
+    }, INLINE_STYLES.iframe + 'opacity: 0; transition: opacity 0.3s ease-out;') as HTMLIFrameElement;
+    
+    this.verificationWindow = iframe;
+    
+    wrapper.appendChild(iframe);
+    wrapper.appendChild(this.loadingSpinner);
+    container.appendChild(wrapper);
+  }
+  
   close(): void {
     // Add closing animations
     const overlay = document.getElementById('agemin-overlay');
@@ -138,11 +174,17 @@ export class Modal {
   }
   
   private cleanup(): void {
-    // Remove iframe overlay
-    removeElement('agemin-overlay');
-    
-    // Restore body scroll (was disabled on mobile)
-    document.body.style.overflow = '';
+    if (this.inline) {
+      // Inline mode never touched the overlay or body scroll
+      removeElement('agemin-inline');
+      this.inline = false;
+    } else {
+      // Remove iframe overlay
+      removeElement('agemin-overlay');
+      
+      // Restore body scroll (was disabled on mobile)
+      document.body.style.overflow = '';
+    }
     
     // Remove event listener
     if (this.escKeyHandler) {
@@ -162,6 +204,15 @@ export class Modal {
   }
   
   updateHeight(height: number): void {
+    // Inline: the host container grows with the content
+    if (this.inline) {
+      const wrapper = document.getElementById('agemin-inline');
+      if (wrapper) {
+        wrapper.style.height = `${Math.max(height, 400)}px`;
+      }
+      return;
+    }
+    
     // Skip height updates on mobile since it's always fullscreen
     if (isSmallScreen()) {
       return;
@@ -0,0 +1,89 @@
+import { POPUP_SIZE } from '../utils/constants';
+
+export class Popup {
+  private popupWindow: Window | null = null;
+  private closeWatcher: ReturnType<typeof setInterval> | null = null;
+  
+  /**
+   * Open the verification popup
+   * Call synchronously from the user gesture, otherwise browsers block it.
+   * Pass 'about:blank' and navigate() later if the URL is built asynchronously.
+   * @returns false if the popup was blocked
+   */
+  open(url: string, onClose?: () => void): boolean {
+    if (this.isOpen()) {
+      console.warn('Agemin SDK: Popup already open, not opening another one');
+      this.popupWindow!.focus();
+      return true;
+    }
+    
+    // Center the popup over the current window
+    const width = Math.min(POPUP_SIZE.width, window.screen.availWidth);
+    const height = Math.min(POPUP_SIZE.height, window.screen.availHeight);
+    const left = Math.max(0, window.screenX + (window.outerWidth - width) / 2);
+    const top = Math.max(0, window.screenY + (window.outerHeight - height) / 2);
+    const features = `width=${width},height=${height},left=${left},top=${top},resizable=yes,scrollbars=yes`;
+    
+    let popup: Window | null = null;
+    try {
+      popup = window.open(url, 'agemin-verification', features);
+    } catch {
+      popup = null;
+    }
+    
+    // Blocked popups return null or a window that is already closed
+    if (!popup || popup.closed || typeof popup.closed === 'undefined') {
+      return false;
+    }
+    
+    this.popupWindow = popup;
+    popup.focus();
+    
+    // There is no close event for cross-origin windows, so poll
+    this.closeWatcher = setInterval(() => {
+      if (this.popupWindow && this.popupWindow.closed) {
+        this.cleanup();
+        if (onClose) onClose();
+      }
+    }, POPUP_SIZE.closePollInterval);
+    
+    return true;
+  }
+  
+  /**
+   * Point an already open popup at the verification URL
+   */
+  navigate(url: string): void {
+    if (this.popupWindow && !this.popupWindow.closed) {
+      this.popupWindow.location.href = url;
+    }
+  }
+  
+  close(): void {
+    const popup = this.popupWindow;
+    
+    // Stop watching first so closing it ourselves is not reported as a cancel
+    this.cleanup();
+    
+    if (popup && !popup.closed) {
+      popup.close();
+    }
+  }
+  
+  private cleanup(): void {
+    if (this.closeWatcher) {
+      clearInterval(this.closeWatcher);
+      this.closeWatcher = null;
+    }
+    
+    this.popupWindow = null;
+  }
+  
+  getWindow(): Window | null {
+    return this.popupWindow;
+  }
+  
+  isOpen(): boolean {
+    return this.popupWindow !== null && !this.popupWindow.closed;
+  }
+}
@@ -0,0 +1,134 @@
+import { ProtectedRoute } from '../types';
+
+type HistoryMethod = typeof history.pushState;
+
+/**
+ * Match a route pattern against a pathname
+ * '*' matches any characters; '/adult/*' also matches '/adult' itself
+ */
+export function matchRoute(pattern: string | RegExp, pathname: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(pathname);
+  }
+  
+  const escaped = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\/\*$/, '(?:/.*)?')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`).test(pathname);
+}
+
+/**
+ * Watches SPA navigation (pushState, replaceState, popstate) and runs a check
+ * when a protected route is entered. Denied navigations are reverted to the
+ * previous URL or sent to the fallback path.
+ * 
+ * The history call has already happened when the check starts, so the router
+ * renders the protected view meanwhile: navigation is reverted, not blocked.
+ */
+export class RouteGuard {
+  private originalPushState: HistoryMethod | null = null;
+  private originalReplaceState: HistoryMethod | null = null;
+  private pushStateWrapper: HistoryMethod | null = null;
+  private replaceStateWrapper: HistoryMethod | null = null;
+  private popStateHandler: (() => void) | null = null;
+  private lastUrl: string = '';
+  private lastState: any = null;
+  
+  constructor(
+    private routes: ProtectedRoute[],
+    private check: (route: ProtectedRoute) => Promise<boolean>,
+    private fallbackPath?: string
+  ) {}
+  
+  install(): void {
+    if (this.originalPushState) return;
+    
+    this.originalPushState = history.pushState;
+    this.originalReplaceState = history.replaceState;
+    
+    const guard = this;
+    const wrap = (original: HistoryMethod): HistoryMethod => function (this: History, ...args) {
+      const previousUrl = guard.lastUrl;
+      const previousState = guard.lastState;
+      original.apply(this, args);
+      guard.handleNavigation(previousUrl, previousState);
+    };
+    
+    this.pushStateWrapper = wrap(this.originalPushState);
+    this.replaceStateWrapper = wrap(this.originalReplaceState);
+    history.pushState = this.pushStateWrapper;
+    history.replaceState = this.replaceStateWrapper;
+    
+    this.popStateHandler = () => this.handleNavigation(this.lastUrl, this.lastState);
+    window.addEventListener('popstate', this.popStateHandler);
+    
+    // Check the page we are on now (no previous URL to go back to)
+    this.handleNavigation('', null);
+  }
+  
+  uninstall(): void {
+    if (!this.originalPushState || !this.originalReplaceState) return;
+    
+    // Only restore if nobody wrapped history after us
+    if (history.pushState === this.pushStateWrapper) {
+      history.pushState = this.originalPushState;
+    }
+    if (history.replaceState === this.replaceStateWrapper) {
+      history.replaceState = this.originalReplaceState;
+    }
+    if (this.popStateHandler) {
+      window.removeEventListener('popstate', this.popStateHandler);
+    }
+    
+    this.originalPushState = null;
+    this.originalReplaceState = null;
+    this.pushStateWrapper = null;
+    this.replaceStateWrapper = null;
+    this.popStateHandler = null;
+  }
+  
+  /**
+   * Check the current page again, e.g. after the stored token was cleared
+   */
+  recheck(): void {
+    if (this.originalPushState) {
+      this.handleNavigation('', null);
+    }
+  }
+  
+  private handleNavigation(previousUrl: string, previousState: any): void {
+    const url = window.location.href;
+    const pathname = window.location.pathname;
+    this.lastUrl = url;
+    this.lastState = history.state;
+    
+    // Still installed? Wrappers may outlive uninstall() when history was re-wrapped
+    if (!this.originalReplaceState) return;
+    
+    // Scroll and state updates keep the pathname; it was checked when it was entered
+    if (previousUrl && new URL(previousUrl).pathname === pathname) return;
+    
+    const route = this.routes.find(candidate => matchRoute(candidate.path, pathname));
+    if (!route) return;
+    
+    const deny = () => {
+      // The visitor may have moved on while the check was running
+      // (same-pathname updates since then don't count as moving on)
+      if (window.location.pathname !== pathname || !this.originalReplaceState) return;
+      
+      const target = this.fallbackPath || previousUrl || '/';
+      const state = this.fallbackPath || !previousUrl ? null : previousState;
+      this.originalReplaceState.call(history, state, '', target);
+      this.lastUrl = window.location.href;
+      this.lastState = state;
+      
+      // Let routers that listen to popstate render the new location
+      window.dispatchEvent(new PopStateEvent('popstate', { state }));
+    };
+    
+    this.check(route).then(allowed => {
+      if (!allowed) deny();
+    }, deny);
+  }
+}
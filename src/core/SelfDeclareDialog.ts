@@ -0,0 +1,109 @@
+import { createElement, removeElement, addStyles } from '../utils/dom';
+import {
+  MODAL_STYLES,
+  ANIMATIONS,
+  SELF_DECLARE_STYLES,
+  SELF_DECLARE_TEXTS
+} from '../utils/constants';
+import { Theme } from '../types';
+
+/**
+ * Why the visitor is asked to self-declare
+ * - 'jurisdiction': the region's rule accepts self-declaration
+ * - 'fallback': verification failed technically
+ */
+export type SelfDeclareReason = 'jurisdiction' | 'fallback';
+
+export interface SelfDeclareDialogOptions {
+  age: number;
+  reason: SelfDeclareReason;
+  theme: Theme;
+  /**
+   * Language code, e.g. 'en' (falls back to English)
+   */
+  locale: string;
+}
+
+/**
+ * SDK-rendered "Are you {age} or older?" dialog, shown in self-declaration regions
+ * and when verification fails technically
+ */
+export class SelfDeclareDialog {
+  private resolveAnswer: ((declaredOfAge: boolean) => void) | null = null;
+  
+  /**
+   * Show the dialog
+   * @returns the visitor's declaration
+   */
+  show(options: SelfDeclareDialogOptions): Promise<boolean> {
+    // Only one dialog at a time - answer the previous one as declined
+    this.answer(false);
+    addStyles('agemin-styles', ANIMATIONS);
+    
+    const texts = SELF_DECLARE_TEXTS[options.locale.split('-')[0].toLowerCase()] || SELF_DECLARE_TEXTS.en;
+    const palette = this.isDark(options.theme) ? SELF_DECLARE_STYLES.dark : SELF_DECLARE_STYLES.light;
+    
+    const overlay = createElement('div', { id: 'agemin-self-declare' }, MODAL_STYLES.overlay);
+    const dialog = createElement('div', {
+      role: 'dialog',
+      'aria-modal': 'true',
+      'aria-labelledby': 'agemin-self-declare-title'
+    }, SELF_DECLARE_STYLES.dialog + palette.dialog);
+    
+    const title = createElement('h2', { id: 'agemin-self-declare-title' }, SELF_DECLARE_STYLES.title);
+    title.textContent = texts.title.replace('{age}', String(options.age));
+    
+    const message = createElement('p', {}, SELF_DECLARE_STYLES.message);
+    message.textContent = texts[options.reason];
+    
+    const actions = createElement('div', {}, SELF_DECLARE_STYLES.actions);
+    
+    const denyBtn = createElement('button', { type: 'button' }, SELF_DECLARE_STYLES.button + palette.deny) as HTMLButtonElement;
+    denyBtn.textContent = texts.deny;
+    denyBtn.onclick = () => this.answer(false);
+    
+    const confirmBtn = createElement('button', { type: 'button' }, SELF_DECLARE_STYLES.button + palette.confirm) as HTMLButtonElement;
+    confirmBtn.textContent = texts.confirm;
+    confirmBtn.onclick = () => this.answer(true);
+    
+    actions.appendChild(denyBtn);
+    actions.appendChild(confirmBtn);
+    dialog.appendChild(title);
+    dialog.appendChild(message);
+    dialog.appendChild(actions);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+    
+    confirmBtn.focus();
+    
+    return new Promise<boolean>(resolve => {
+      this.resolveAnswer = resolve;
+    });
+  }
+  
+  close(): void {
+    this.answer(false);
+  }
+  
+  isOpen(): boolean {
+    return document.getElementById('agemin-self-declare') !== null;
+  }
+  
+  private answer(declaredOfAge: boolean): void {
+    removeElement('agemin-self-declare');
+    
+    if (this.resolveAnswer) {
+      const resolve = this.resolveAnswer;
+      this.resolveAnswer = null;
+      resolve(declaredOfAge);
+    }
+  }
+  
+  private isDark(theme: Theme): boolean {
+    if (theme === 'auto') {
+      return typeof window.matchMedia === 'function' &&
+             window.matchMedia('(prefers-color-scheme: dark)').matches;
+    }
+    return theme === 'dark';
+  }
+}
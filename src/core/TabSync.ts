@@ -0,0 +1,88 @@
+import { generateId } from '../utils/dom';
+
+/**
+ * `jwt` is left out when the message goes through localStorage: receivers then read
+ * the token from their own storage
+ */
+export type TabSyncMessage =
+  | { type: 'verified'; jwt?: string; exp?: number | null }
+  | { type: 'cleared' };
+
+interface TabSyncEnvelope {
+  tabId: string;
+  message: TabSyncMessage;
+}
+
+/**
+ * Shares verification outcomes between tabs of the same site
+ * Uses BroadcastChannel where available, otherwise `storage` events on localStorage
+ * (notifications only: the token itself is never written to localStorage).
+ */
+export class TabSync {
+  private tabId: string = generateId('tab');
+  private channel: BroadcastChannel | null = null;
+  private storageHandler: ((event: StorageEvent) => void) | null = null;
+  
+  constructor(
+    private name: string,
+    private onMessage: (message: TabSyncMessage) => void
+  ) {}
+  
+  start(): void {
+    if (this.channel || this.storageHandler) return;
+    
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.onmessage = (event: MessageEvent) => this.receive(event.data);
+      return;
+    }
+    
+    // storage events fire in every other tab sharing the localStorage
+    this.storageHandler = (event: StorageEvent) => {
+      if (event.key !== this.name || !event.newValue) return;
+      try {
+        this.receive(JSON.parse(event.newValue));
+      } catch {
+        // Not one of ours
+      }
+    };
+    window.addEventListener('storage', this.storageHandler);
+  }
+  
+  stop(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.storageHandler) {
+      window.removeEventListener('storage', this.storageHandler);
+      this.storageHandler = null;
+    }
+  }
+  
+  post(message: TabSyncMessage): void {
+    const envelope: TabSyncEnvelope = { tabId: this.tabId, message };
+    
+    try {
+      if (this.channel) {
+        this.channel.postMessage(envelope);
+      } else if (this.storageHandler) {
+        // Write then remove: other tabs get the event, nothing lingers in storage.
+        // The token may only be stored where the visitor's consent and `storage` allow
+        const notification: TabSyncEnvelope = {
+          tabId: this.tabId,
+          message: message.type === 'verified' ? { type: 'verified' } : message
+        };
+        window.localStorage.setItem(this.name, JSON.stringify({ ...notification, nonce: generateId('sync') }));
+        window.localStorage.removeItem(this.name);
+      }
+    } catch (error) {
+      console.warn('Agemin SDK: Failed to notify other tabs', error);
+    }
+  }
+  
+  private receive(envelope: TabSyncEnvelope): void {
+    if (!envelope || !envelope.message || envelope.tabId === this.tabId) return;
+    this.onMessage(envelope.message);
+  }
+}
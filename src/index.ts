@@ -22,8 +22,11 @@ if (typeof document !== 'undefined') {
         successUrl: script.getAttribute('data-agemin-success-url') || undefined,
         cancelUrl: script.getAttribute('data-agemin-cancel-url') || undefined,
         mode: script.getAttribute('data-agemin-mode') as any || undefined,
+        container: script.getAttribute('data-agemin-container') || undefined,
         theme: script.getAttribute('data-agemin-theme') as any || undefined,
         locale: script.getAttribute('data-agemin-locale') || undefined,
+        fallback: script.getAttribute('data-agemin-fallback') as any || undefined,
+        region: script.getAttribute('data-agemin-region') || undefined,
         debug: script.getAttribute('data-agemin-debug') === 'true'
       };
       
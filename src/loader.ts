@@ -0,0 +1,63 @@
+/**
+ * Lightweight loader entry
+ *
+ * Runs the cheap checks (search engine bypass, verification cookie) synchronously and
+ * loads the full SDK, jose and FingerprintJS only when a visit needs them.
+ */
+
+import type { Agemin } from './core/Agemin';
+import type { AgeminConfig, VerifyOptions } from './types';
+import { getCookie } from './utils/cookies';
+import { isSearchEngineBot } from './utils/device';
+import { DEFAULT_CONFIG } from './utils/constants';
+
+export type * from './types';
+
+/**
+ * Check if this visitor is a search engine crawler allowed to bypass verification
+ */
+export function isBypassedBot(
+  config: Pick<AgeminConfig, 'allowSearchEngineBypass' | 'searchEngineDetection' | 'botDetection'>
+): boolean {
+  return !!config.allowSearchEngineBypass &&
+    isSearchEngineBot(config.searchEngineDetection || DEFAULT_CONFIG.searchEngineDetection, config.botDetection);
+}
+
+/**
+ * Check if a verification cookie is present (presence only, the token is not validated)
+ */
+export function hasVerificationCookie(config: Pick<AgeminConfig, 'storageKey' | 'cookie'> = {}): boolean {
+  return !!getCookie(config.storageKey || config.cookie?.name || DEFAULT_CONFIG.storageKey);
+}
+
+/**
+ * Load the full SDK
+ */
+export async function loadAgemin(): Promise<typeof Agemin> {
+  const module = await import('./core/Agemin');
+  return module.Agemin;
+}
+
+/**
+ * validateSession() that loads only what the visit needs
+ * Crawlers allowed by `allowSearchEngineBypass` resolve without loading anything. Otherwise
+ * the SDK is loaded along with jose when there is a token to validate, or FingerprintJS
+ * when the visitor has to be verified.
+ */
+export async function validateSession(config: AgeminConfig, options?: VerifyOptions): Promise<boolean> {
+  if (isBypassedBot(config)) {
+    return true;
+  }
+  
+  // Fetch the module this visit will need in parallel with the core
+  const hasToken = hasVerificationCookie(config) || (!!config.storage && config.storage !== 'cookie');
+  const preload = hasToken
+    ? import('./utils/jwt')
+    : config.fingerprint !== false ? import('./utils/fingerprint') : null;
+  preload?.catch(() => {
+    // Retried (and reported) when the SDK actually needs the module
+  });
+  
+  const AgeminSDK = await loadAgemin();
+  return new AgeminSDK(config).validateSession(options);
+}
@@ -0,0 +1,27 @@
+/**
+ * Crawler IP ranges from the files each operator publishes
+ * Replaced by scripts/update-crawler-ranges.mjs (`npm run update:crawlers`), which runs before
+ * every publish and fails it if a published file can't be fetched.
+ *
+ * This checked-in copy is a seed for source builds: Google covers only the 66.249.64.0/19 and
+ * 2001:4860:4801::/48 blocks of googlebot.json, and Apple has no ranges.
+ */
+
+export const CRAWLER_RANGES: Record<'google' | 'bing' | 'apple', string[]> = {
+  // https://developers.google.com/static/search/apis/ipranges/googlebot.json
+  google: [
+    '66.249.64.0/19',
+    '2001:4860:4801::/48'
+  ],
+  // https://www.bing.com/toolbox/bingbot.json
+  bing: [
+    '13.66.139.0/24', '13.66.144.0/24', '13.67.10.16/28', '13.69.66.240/28', '13.71.172.224/28',
+    '20.15.133.160/27', '20.36.108.32/28', '20.43.120.16/28', '20.74.197.0/28', '20.79.107.240/28',
+    '20.125.163.80/28', '40.77.139.0/25', '40.77.167.0/24', '40.77.177.0/24', '40.77.178.0/23',
+    '40.77.188.0/22', '40.77.202.0/24', '40.79.131.208/28', '40.79.186.176/28', '51.105.67.0/28',
+    '52.167.144.0/24', '52.231.148.0/28', '65.55.210.0/24', '139.217.52.0/28', '157.55.39.0/24',
+    '191.233.204.224/28', '199.30.24.0/23', '207.46.13.0/24'
+  ],
+  // https://search.developer.apple.com/applebot.json
+  apple: []
+};
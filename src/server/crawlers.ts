@@ -0,0 +1,183 @@
+/**
+ * Verified search engine crawler detection
+ *
+ * User agents are trivially spoofed, so a crawler only counts as verified when its IP
+ * is inside the ranges its operator publishes (and, optionally, when reverse and
+ * forward DNS agree). The bundled ranges can be refreshed from the published files.
+ */
+
+import { CRAWLER_RANGES } from './crawlerRanges';
+import { isIpInRange, parseIp } from './ip';
+
+export interface CrawlerDefinition {
+  /**
+   * Crawler operator, e.g. 'google'
+   */
+  name: string;
+  
+  /**
+   * User agents claiming to be this crawler
+   */
+  userAgent: RegExp;
+  
+  /**
+   * IP ranges (CIDR) the crawler runs from
+   */
+  ranges: string[];
+  
+  /**
+   * Domains the crawler's reverse DNS hostnames end with
+   */
+  hostnames: string[];
+  
+  /**
+   * Published JSON file with the current ranges (`{ prefixes: [{ ipv4Prefix | ipv6Prefix }] }`)
+   */
+  rangesUrl?: string;
+}
+
+/**
+ * DNS lookups for reverse/forward confirmation, e.g. backed by node:dns
+ */
+export interface CrawlerDnsResolver {
+  /**
+   * Hostnames for an IP (PTR records)
+   */
+  reverse(ip: string): Promise<string[]>;
+  
+  /**
+   * Addresses for a hostname (A/AAAA records)
+   */
+  resolve(hostname: string): Promise<string[]>;
+}
+
+export interface VerifiedCrawlerOptions {
+  /**
+   * Crawler dataset (e.g. from refreshCrawlerRanges)
+   * @default CRAWLERS
+   */
+  crawlers?: CrawlerDefinition[];
+  
+  /**
+   * Also require reverse DNS to point at the crawler's domain and forward DNS back at the IP
+   */
+  dns?: CrawlerDnsResolver;
+}
+
+/**
+ * Bundled crawler dataset (ranges from crawlerRanges.ts)
+ */
+export const CRAWLERS: CrawlerDefinition[] = [
+  {
+    name: 'google',
+    userAgent: /Googlebot|Google-InspectionTool|GoogleOther|Storebot-Google/i,
+    ranges: CRAWLER_RANGES.google,
+    hostnames: ['googlebot.com', 'google.com', 'googleusercontent.com'],
+    rangesUrl: 'https://developers.google.com/static/search/apis/ipranges/googlebot.json'
+  },
+  {
+    name: 'bing',
+    userAgent: /bingbot|BingPreview|msnbot|adidxbot/i,
+    ranges: CRAWLER_RANGES.bing,
+    hostnames: ['search.msn.com'],
+    rangesUrl: 'https://www.bing.com/toolbox/bingbot.json'
+  },
+  {
+    name: 'apple',
+    userAgent: /Applebot/i,
+    ranges: CRAWLER_RANGES.apple,
+    hostnames: ['applebot.apple.com'],
+    rangesUrl: 'https://search.developer.apple.com/applebot.json'
+  }
+];
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return domains.some(domain => host === domain || host.endsWith('.' + domain));
+}
+
+/**
+ * Confirm an IP with reverse DNS (hostname in the crawler's domain) and forward DNS (hostname resolves back)
+ */
+async function confirmDns(ip: string, crawler: CrawlerDefinition, dns: CrawlerDnsResolver): Promise<boolean> {
+  const address = parseIp(ip);
+  if (!address) return false;
+  
+  try {
+    const hostnames = (await dns.reverse(ip)).filter(hostname => matchesDomain(hostname, crawler.hostnames));
+    
+    for (const hostname of hostnames) {
+      const addresses = await dns.resolve(hostname);
+      const resolvesBack = addresses.some(candidate => {
+        const parsed = parseIp(candidate);
+        return !!parsed && parsed.version === address.version && parsed.value === address.value;
+      });
+      if (resolvesBack) return true;
+    }
+  } catch {
+    // Lookup failures mean unconfirmed
+  }
+  
+  return false;
+}
+
+/**
+ * Name of the verified crawler making the request, or null
+ * The user agent picks the crawler, whose published ranges must contain the IP
+ */
+export async function getVerifiedCrawler(
+  ip: string | null | undefined,
+  userAgent: string | null | undefined,
+  options: VerifiedCrawlerOptions = {}
+): Promise<string | null> {
+  if (!ip || !userAgent) return null;
+  
+  const crawlers = options.crawlers || CRAWLERS;
+  
+  for (const crawler of crawlers) {
+    if (!crawler.userAgent.test(userAgent)) continue;
+    if (!crawler.ranges.some(range => isIpInRange(ip, range))) continue;
+    if (options.dns && !(await confirmDns(ip, crawler, options.dns))) continue;
+    return crawler.name;
+  }
+  
+  return null;
+}
+
+/**
+ * Check if a request comes from a real Google, Bing or Apple crawler
+ */
+export async function isVerifiedCrawler(
+  ip: string | null | undefined,
+  userAgent: string | null | undefined,
+  options: VerifiedCrawlerOptions = {}
+): Promise<boolean> {
+  return (await getVerifiedCrawler(ip, userAgent, options)) !== null;
+}
+
+/**
+ * Fetch the current ranges from each crawler's published file
+ * Crawlers whose file can't be fetched or parsed keep their existing ranges.
+ */
+export async function refreshCrawlerRanges(
+  crawlers: CrawlerDefinition[] = CRAWLERS,
+  fetchImpl: typeof fetch = fetch
+): Promise<CrawlerDefinition[]> {
+  return Promise.all(crawlers.map(async crawler => {
+    if (!crawler.rangesUrl) return crawler;
+    
+    try {
+      const response = await fetchImpl(crawler.rangesUrl);
+      if (!response.ok) return crawler;
+      
+      const data = await response.json() as { prefixes?: Array<{ ipv4Prefix?: string; ipv6Prefix?: string }> };
+      const ranges = (data.prefixes || [])
+        .map(prefix => prefix.ipv4Prefix || prefix.ipv6Prefix)
+        .filter((range): range is string => !!range && !!parseIp(range.split('/')[0]));
+      
+      return ranges.length ? { ...crawler, ranges } : crawler;
+    } catch {
+      return crawler;
+    }
+  }));
+}
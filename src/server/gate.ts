@@ -0,0 +1,101 @@
+/**
+ * Shared age gate decision logic for server middleware and request handlers
+ */
+
+import { JWTPayload, VerifyTokenOptions } from '../types/token';
+import { verifyAgeToken } from '../utils/token';
+import { VerifiedCrawlerOptions, isVerifiedCrawler } from './crawlers';
+
+export interface AgeGateBaseOptions extends Pick<VerifyTokenOptions, 'jwksUrl' | 'issuer'> {
+  /**
+   * Name of the cookie holding the verification JWT
+   * @default 'agemin_verification'
+   */
+  cookieName?: string;
+  
+  /**
+   * Hostname the token must be issued for, or a list of your site's hostnames
+   * Required: the Host and X-Forwarded-Host headers are set by the client, so they can't bind
+   * the token to your site. Matched strictly: unlike in the browser, localhost and IP addresses
+   * get no local development exemption.
+   */
+  expectedDomain: string | string[];
+  
+  /**
+   * HTTP status returned when the visitor has no valid token
+   * @default 403
+   */
+  deniedStatus?: 403 | 451;
+  
+  /**
+   * HTTP status returned when the token is valid but the visitor is under age
+   * @default 451
+   */
+  underageStatus?: 403 | 451;
+  
+  /**
+   * Let verified search engine crawlers through without a token (SEO bypass)
+   * Crawlers are checked by IP against published ranges, not just by user agent.
+   * `true` uses the bundled ranges; pass options for a refreshed dataset or DNS confirmation
+   * @default false
+   */
+  crawlerBypass?: boolean | VerifiedCrawlerOptions;
+}
+
+export type AgeGateDenialReason = 'missing_token' | 'invalid_token' | 'underage';
+
+export type AgeGateDecision =
+  | { allowed: true; payload: JWTPayload }
+  | { allowed: false; status: 403 | 451; reason: AgeGateDenialReason; error?: string };
+
+/**
+ * Fail at setup when no domain is configured, rather than letting every token through
+ */
+export function assertExpectedDomain(options: AgeGateBaseOptions | undefined): void {
+  const domains = ([] as string[]).concat(options?.expectedDomain ?? []).filter(Boolean);
+  if (!domains.length) {
+    throw new Error('Agemin age gate: expectedDomain is required (your site\'s hostname or a list of them)');
+  }
+}
+
+/**
+ * Check if a denied request may still pass as a verified crawler
+ */
+export async function isCrawlerBypassed(
+  ip: string | null | undefined,
+  userAgent: string | null | undefined,
+  options: AgeGateBaseOptions
+): Promise<boolean> {
+  if (!options.crawlerBypass) return false;
+  return isVerifiedCrawler(ip, userAgent, options.crawlerBypass === true ? {} : options.crawlerBypass);
+}
+
+/**
+ * Decide whether a request carrying the given token may pass the gate
+ */
+export async function evaluateAgeGate(
+  token: string | null | undefined,
+  options: AgeGateBaseOptions
+): Promise<AgeGateDecision> {
+  const deniedStatus = options.deniedStatus || 403;
+  
+  if (!token) {
+    return { allowed: false, status: deniedStatus, reason: 'missing_token' };
+  }
+  
+  const result = await verifyAgeToken(token, {
+    jwksUrl: options.jwksUrl,
+    issuer: options.issuer,
+    expectedDomain: options.expectedDomain
+  });
+  
+  if (!result.isValid || !result.payload) {
+    return { allowed: false, status: deniedStatus, reason: 'invalid_token', error: result.error };
+  }
+  
+  if (!result.isOfAge) {
+    return { allowed: false, status: options.underageStatus || 451, reason: 'underage' };
+  }
+  
+  return { allowed: true, payload: result.payload };
+}
@@ -0,0 +1,80 @@
+/**
+ * Runtime-agnostic age gate for the Fetch API (Request/Response)
+ * Works in Cloudflare Workers, Deno, Bun and Next.js middleware
+ */
+
+import { JWTPayload } from '../types/token';
+import { VERIFICATION_COOKIE_NAME } from '../utils/constants';
+import { parseCookieHeader } from '../utils/cookies';
+import { AgeGateBaseOptions, assertExpectedDomain, evaluateAgeGate, isCrawlerBypassed } from './gate';
+
+export interface AgeGateHandlerOptions extends AgeGateBaseOptions {
+  /**
+   * Gate page to redirect denied visitors to instead of returning JSON
+   * Relative URLs are resolved against the request URL
+   */
+  redirectTo?: string | ((request: Request) => string);
+  
+  /**
+   * Called with the decoded token payload when the request is allowed
+   */
+  onAllowed?: (payload: JWTPayload, request: Request) => void;
+  
+  /**
+   * Client IP for the crawler bypass, e.g. `request => request.headers.get('cf-connecting-ip')`
+   * Only read headers your platform sets itself; without this the crawler bypass is skipped
+   */
+  clientIp?: (request: Request) => string | null | undefined;
+}
+
+export type AgeGateHandler = (request: Request) => Promise<Response | null>;
+
+/**
+ * Create a handler that returns `null` when the request may proceed,
+ * or a redirect/deny `Response` when the visitor is not verified
+ */
+export function createAgeGateHandler(options: AgeGateHandlerOptions): AgeGateHandler {
+  assertExpectedDomain(options);
+  const cookieName = options.cookieName || VERIFICATION_COOKIE_NAME;
+  
+  return async function ageGateHandler(request: Request): Promise<Response | null> {
+    const token = parseCookieHeader(request.headers.get('cookie'), cookieName);
+    const decision = await evaluateAgeGate(token, options);
+    
+    if (decision.allowed) {
+      if (options.onAllowed) {
+        options.onAllowed(decision.payload, request);
+      }
+      return null;
+    }
+    
+    const ip = options.clientIp ? options.clientIp(request) : null;
+    if (await isCrawlerBypassed(ip, request.headers.get('user-agent'), options)) {
+      return null;
+    }
+    
+    if (options.redirectTo) {
+      const location = typeof options.redirectTo === 'function'
+        ? options.redirectTo(request)
+        : options.redirectTo;
+      return new Response(null, {
+        status: 302,
+        headers: {
+          'Location': new URL(location, request.url).toString(),
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      error: decision.reason === 'underage' ? 'age_requirement_not_met' : 'age_verification_required',
+      reason: decision.reason
+    }), {
+      status: decision.status,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+  };
+}
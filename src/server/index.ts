@@ -0,0 +1,25 @@
+/**
+ * Server entry point: @bynn-intelligence/agemin-sdk/server
+ * Everything exported here must run without a DOM (Node, edge runtimes)
+ */
+
+export { verifyAgeToken } from '../utils/token';
+export { ageGate } from './middleware';
+export { createAgeGateHandler } from './handler';
+export { CRAWLERS, isVerifiedCrawler, getVerifiedCrawler, refreshCrawlerRanges } from './crawlers';
+export { isIpInRange } from './ip';
+
+export type {
+  JWTPayload,
+  TokenValidationResult,
+  VerifyTokenOptions
+} from '../types/token';
+export type { AgeGateBaseOptions, AgeGateDenialReason } from './gate';
+export type {
+  AgeGateOptions,
+  AgeGateRequest,
+  AgeGateResponse,
+  AgeGateNext
+} from './middleware';
+export type { AgeGateHandler, AgeGateHandlerOptions } from './handler';
+export type { CrawlerDefinition, CrawlerDnsResolver, VerifiedCrawlerOptions } from './crawlers';
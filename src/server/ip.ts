@@ -0,0 +1,89 @@
+/**
+ * IP address and CIDR range matching (IPv4 and IPv6, no dependencies)
+ */
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  
+  let value = BigInt(0);
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << BigInt(8)) + BigInt(part);
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // Drop the zone index (fe80::1%eth0)
+  let address = ip.split('%')[0];
+  
+  // Embedded IPv4 suffix (::ffff:192.0.2.1) becomes two hex groups
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.substring(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = parseIPv4(tail);
+    if (ipv4 === null) return null;
+    address = address.substring(0, lastColon + 1) +
+      (ipv4 >> BigInt(16)).toString(16) + ':' + (ipv4 & BigInt(0xffff)).toString(16);
+  }
+  
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  
+  const groups = [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/**
+ * Parse an IP address; IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as IPv4
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  const address = ip.trim().replace(/^\[|\]$/g, '');
+  
+  if (!address.includes(':')) {
+    const value = parseIPv4(address);
+    return value === null ? null : { version: 4, value };
+  }
+  
+  const value = parseIPv6(address);
+  if (value === null) return null;
+  
+  if (value >> BigInt(32) === BigInt(0xffff)) {
+    return { version: 4, value: value & BigInt(0xffffffff) };
+  }
+  return { version: 6, value };
+}
+
+/**
+ * Check if an IP address is inside a CIDR range, e.g. '66.249.64.0/19' or '2001:4860:4801::/48'
+ */
+export function isIpInRange(ip: string, cidr: string): boolean {
+  const [base, bitsText] = cidr.split('/');
+  const address = parseIp(ip);
+  const network = parseIp(base);
+  if (!address || !network || address.version !== network.version) return false;
+  
+  const width = network.version === 4 ? 32 : 128;
+  const bits = bitsText === undefined ? width : Number(bitsText);
+  if (!Number.isInteger(bits) || bits < 0 || bits > width) return false;
+  
+  const hostBits = BigInt(width - bits);
+  return address.value >> hostBits === network.value >> hostBits;
+}
@@ -0,0 +1,110 @@
+/**
+ * Express/Connect age gate middleware
+ */
+
+import { JWTPayload } from '../types/token';
+import { VERIFICATION_COOKIE_NAME } from '../utils/constants';
+import { parseCookieHeader } from '../utils/cookies';
+import { AgeGateBaseOptions, AgeGateDecision, assertExpectedDomain, evaluateAgeGate, isCrawlerBypassed } from './gate';
+
+/**
+ * Minimal request shape shared by Express, Connect and node:http
+ */
+export interface AgeGateRequest {
+  headers: Record<string, string | string[] | undefined>;
+  url?: string;
+  originalUrl?: string;
+  ip?: string;
+  socket?: { remoteAddress?: string };
+  cookies?: Record<string, string>;
+  agemin?: JWTPayload;
+}
+
+/**
+ * Minimal response shape shared by Express, Connect and node:http
+ */
+export interface AgeGateResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+export type AgeGateNext = (error?: unknown) => void;
+
+export interface AgeGateOptions extends AgeGateBaseOptions {
+  /**
+   * Gate page to redirect denied visitors to instead of returning JSON
+   * A function receives the request so the original URL can be passed along
+   */
+  redirectTo?: string | ((req: AgeGateRequest) => string);
+}
+
+/**
+ * Create middleware that only lets visitors with a valid, of-age verification token through
+ * The decoded token payload is attached to `req.agemin`
+ */
+export function ageGate(options: AgeGateOptions) {
+  assertExpectedDomain(options);
+  const cookieName = options.cookieName || VERIFICATION_COOKIE_NAME;
+  
+  return async function ageGateMiddleware(
+    req: AgeGateRequest,
+    res: AgeGateResponse,
+    next: AgeGateNext
+  ): Promise<void> {
+    let decision: AgeGateDecision;
+    let isCrawler = false;
+    
+    try {
+      // Prefer cookies already parsed by cookie-parser, fall back to the raw header
+      const cookieHeader = req.headers.cookie;
+      const token = req.cookies?.[cookieName] ??
+        parseCookieHeader(Array.isArray(cookieHeader) ? cookieHeader.join('; ') : cookieHeader, cookieName);
+      
+      decision = await evaluateAgeGate(token, options);
+      
+      if (!decision.allowed) {
+        // req.ip honours Express's "trust proxy" setting
+        const userAgent = req.headers['user-agent'];
+        isCrawler = await isCrawlerBypassed(
+          req.ip || req.socket?.remoteAddress,
+          Array.isArray(userAgent) ? userAgent[0] : userAgent,
+          options
+        );
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+    
+    if (decision.allowed) {
+      req.agemin = decision.payload;
+      next();
+      return;
+    }
+    
+    if (isCrawler) {
+      next();
+      return;
+    }
+    
+    if (options.redirectTo) {
+      const location = typeof options.redirectTo === 'function'
+        ? options.redirectTo(req)
+        : options.redirectTo;
+      res.statusCode = 302;
+      res.setHeader('Location', location);
+      res.setHeader('Cache-Control', 'no-store');
+      res.end();
+      return;
+    }
+    
+    res.statusCode = decision.status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify({
+      error: decision.reason === 'underage' ? 'age_requirement_not_met' : 'age_verification_required',
+      reason: decision.reason
+    }));
+  };
+}
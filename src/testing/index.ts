@@ -0,0 +1,16 @@
+/**
+ * Testing entry point: @bynn-intelligence/agemin-sdk/testing
+ * Node-only helpers for running the SDK against a local verification service
+ */
+
+export { startVerificationSimulator } from './simulator';
+export { renderSimulatorPage } from './page';
+
+export type {
+  SimulatedOutcome,
+  SimulatedTokenClaims,
+  SimulatedVerificationRequest,
+  VerificationSimulator,
+  VerificationSimulatorOptions
+} from './simulator';
+export type { SimulatorPageMessage } from './page';
@@ -0,0 +1,60 @@
+/**
+ * Verification page served by the simulator
+ * Speaks the same postMessage protocol as verify.agemin.com
+ */
+
+import { MessageType } from '../types/events';
+
+export interface SimulatorPageMessage {
+  type: MessageType;
+  data?: Record<string, any>;
+}
+
+/**
+ * Render a page that posts the given messages to the embedding window, in order
+ * Without an embedding window (redirect mode) it navigates to `redirectUrl` instead
+ */
+export function renderSimulatorPage(messages: SimulatorPageMessage[], delay: number, redirectUrl?: string): string {
+  // Escape "<" so payloads cannot close the script tag
+  const script = JSON.stringify(messages).replace(/</g, '\\u003c');
+  const redirect = JSON.stringify(redirectUrl || null).replace(/</g, '\\u003c');
+  
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Agemin Verification Simulator</title>
+</head>
+<body>
+  <p id="agemin-simulator-status">Simulating verification...</p>
+  <script>
+    (function () {
+      var messages = ${script};
+      var redirect = ${redirect};
+      var target = window.parent !== window ? window.parent : window.opener;
+      var status = document.getElementById('agemin-simulator-status');
+      
+      if (!target && redirect) {
+        setTimeout(function () { window.location.replace(redirect); }, ${Math.max(0, delay)});
+        return;
+      }
+      
+      function post(index) {
+        if (index >= messages.length) {
+          status.textContent = 'Simulation complete';
+          return;
+        }
+        var message = messages[index];
+        if (target) {
+          target.postMessage({ type: message.type, data: message.data, timestamp: Date.now() }, '*');
+        }
+        status.textContent = message.type;
+        setTimeout(function () { post(index + 1); }, ${Math.max(0, delay)});
+      }
+      
+      post(0);
+    })();
+  </script>
+</body>
+</html>`;
+}
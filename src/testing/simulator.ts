@@ -0,0 +1,349 @@
+/**
+ * Local Agemin verification service simulator for integration tests
+ * Serves /start/{assetId} pages that post real protocol messages and
+ * signs tokens with a test key published at /.well-known/jwks.json
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { exportJWK, generateKeyPair, SignJWT, CryptoKey } from 'jose';
+import { MessageType } from '../types/events';
+import { REDIRECT_PARAMS } from '../utils/constants';
+import { generateId } from '../utils/dom';
+import { renderSimulatorPage, SimulatorPageMessage } from './page';
+
+export type SimulatedOutcome = 'pass' | 'fail' | 'error' | 'cancel';
+
+export interface VerificationSimulatorOptions {
+  /**
+   * Port to listen on (0 picks a free port)
+   * @default 0
+   */
+  port?: number;
+  
+  /**
+   * Hostname to bind and use in URLs
+   * @default 'localhost'
+   */
+  host?: string;
+  
+  /**
+   * Default outcome for verification pages
+   * Can be overridden per verification with `metadata: { simulate: '<outcome>' }`
+   * @default 'pass'
+   */
+  outcome?: SimulatedOutcome;
+  
+  /**
+   * Domain claim written into issued tokens
+   * @default 'localhost'
+   */
+  domain?: string;
+  
+  /**
+   * Age threshold claim written into issued tokens
+   * @default 18
+   */
+  ageThreshold?: number;
+  
+  /**
+   * Lifetime of issued tokens in seconds
+   * @default 3600
+   */
+  tokenTtl?: number;
+  
+  /**
+   * Delay between posted messages in milliseconds
+   * @default 50
+   */
+  delay?: number;
+  
+  /**
+   * Issuer claim for issued tokens - configure the SDK with the same `issuer`
+   * @default 'agemin-test'
+   */
+  issuer?: string;
+  
+  /**
+   * Omit the JWT from SUCCESS messages (strong API security mode)
+   * @default false
+   */
+  omitJwt?: boolean;
+}
+
+export interface SimulatedTokenClaims {
+  isOfAge?: boolean;
+  domain?: string;
+  fingerprint?: string;
+  ageThreshold?: number;
+  referenceId?: string;
+  /**
+   * Lifetime in seconds
+   */
+  expiresIn?: number;
+}
+
+export interface SimulatedVerificationRequest {
+  assetId: string;
+  params: Record<string, string>;
+  outcome: SimulatedOutcome;
+}
+
+export interface VerificationSimulator {
+  /**
+   * Base URL - pass as `verificationURL` (and `baseUrl`) to the SDK
+   */
+  url: string;
+  
+  /**
+   * JWKS URL publishing the test key - pass as `jwksUrl` to the SDK
+   */
+  jwksUrl: string;
+  
+  /**
+   * Issuer of test tokens - pass as `issuer` to the SDK
+   */
+  issuer: string;
+  
+  /**
+   * Verification pages served so far, for assertions
+   */
+  requests: SimulatedVerificationRequest[];
+  
+  /**
+   * Change the default outcome for subsequent verifications
+   */
+  setOutcome(outcome: SimulatedOutcome): void;
+  
+  /**
+   * Sign a token with the test key (e.g. to seed the verification cookie)
+   */
+  signToken(claims?: SimulatedTokenClaims): Promise<string>;
+  
+  /**
+   * Stop the server
+   */
+  close(): Promise<void>;
+}
+
+const OUTCOMES: SimulatedOutcome[] = ['pass', 'fail', 'error', 'cancel'];
+
+/**
+ * Read the per-verification outcome override from the `metadata` query parameter
+ */
+function getOutcomeOverride(metadata: string | undefined): SimulatedOutcome | null {
+  if (!metadata) return null;
+  
+  try {
+    const simulate = JSON.parse(metadata)?.simulate;
+    return OUTCOMES.includes(simulate) ? simulate : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start a local verification simulator
+ */
+export async function startVerificationSimulator(
+  options: VerificationSimulatorOptions = {}
+): Promise<VerificationSimulator> {
+  const host = options.host || 'localhost';
+  const issuer = options.issuer || 'agemin-test';
+  const kid = 'agemin-test-key';
+  const delay = options.delay ?? 50;
+  let outcome: SimulatedOutcome = options.outcome || 'pass';
+  
+  const { publicKey, privateKey } = await generateKeyPair('RS256', { extractable: true });
+  const jwks = {
+    keys: [{ ...(await exportJWK(publicKey)), kid, alg: 'RS256', use: 'sig' }]
+  };
+  
+  const requests: SimulatedVerificationRequest[] = [];
+  
+  async function signToken(claims: SimulatedTokenClaims = {}): Promise<string> {
+    return signWithKey(privateKey, {
+      issuer,
+      kid,
+      isOfAge: claims.isOfAge ?? true,
+      domain: claims.domain ?? options.domain ?? 'localhost',
+      fingerprint: claims.fingerprint,
+      ageThreshold: claims.ageThreshold ?? options.ageThreshold ?? 18,
+      referenceId: claims.referenceId ?? generateId('ref'),
+      expiresIn: claims.expiresIn ?? options.tokenTtl ?? 3600
+    });
+  }
+  
+  async function buildMessages(selected: SimulatedOutcome, params: Record<string, string>): Promise<SimulatorPageMessage[]> {
+    const messages: SimulatorPageMessage[] = [
+      { type: MessageType.READY },
+      { type: MessageType.APP_READY },
+      { type: MessageType.PROGRESS, data: { percentage: 50, stage: 'scanning' } },
+      { type: MessageType.PROGRESS, data: { percentage: 100, stage: 'complete' } }
+    ];
+    
+    switch (selected) {
+      case 'pass':
+      case 'fail': {
+        if (options.omitJwt) {
+          messages.push({ type: MessageType.SUCCESS, data: {} });
+          break;
+        }
+        const expiresIn = options.tokenTtl ?? 3600;
+        const jwt = await signToken({
+          isOfAge: selected === 'pass',
+          fingerprint: params.fp,
+          referenceId: params.reference_id,
+          expiresIn
+        });
+        messages.push({
+          type: MessageType.SUCCESS,
+          data: { jwt, exp: Math.floor(Date.now() / 1000) + expiresIn }
+        });
+        break;
+      }
+      
+      case 'error':
+        messages.push({
+          type: MessageType.ERROR,
+          data: { code: 'SIMULATED_ERROR', message: 'Simulated verification error' }
+        });
+        break;
+      
+      case 'cancel':
+        messages.push({ type: MessageType.CANCEL });
+        break;
+    }
+    
+    return messages;
+  }
+  
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${host}`);
+    
+    if (url.pathname === '/.well-known/jwks.json') {
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      });
+      res.end(JSON.stringify(jwks));
+      return;
+    }
+    
+    const match = url.pathname.match(/^\/start\/([^/]+)\/?$/);
+    if (!match) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+    
+    const params: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+    
+    const selected = getOutcomeOverride(params.metadata) || outcome;
+    requests.push({ assetId: decodeURIComponent(match[1]), params, outcome: selected });
+    
+    const messages = await buildMessages(selected, params);
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(renderSimulatorPage(messages, delay, buildRedirectUrl(params.return_url, messages)));
+  }
+  
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(error instanceof Error ? error.message : 'Simulator error');
+    });
+  });
+  
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+  
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${host}:${port}`;
+  
+  return {
+    url,
+    jwksUrl: `${url}/.well-known/jwks.json`,
+    issuer,
+    requests,
+    setOutcome(next: SimulatedOutcome) {
+      outcome = next;
+    },
+    signToken,
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+}
+
+/**
+ * Build the return URL for redirect mode, carrying the final message as fragment parameters
+ */
+function buildRedirectUrl(returnUrl: string | undefined, messages: SimulatorPageMessage[]): string | undefined {
+  if (!returnUrl) return undefined;
+  
+  const final = messages[messages.length - 1];
+  const fragment = new URLSearchParams();
+  
+  switch (final.type) {
+    case MessageType.SUCCESS:
+      fragment.set(REDIRECT_PARAMS.status, 'success');
+      if (final.data?.jwt) {
+        fragment.set(REDIRECT_PARAMS.jwt, final.data.jwt);
+        fragment.set(REDIRECT_PARAMS.exp, String(final.data.exp));
+      }
+      break;
+    
+    case MessageType.ERROR:
+      fragment.set(REDIRECT_PARAMS.status, 'error');
+      fragment.set(REDIRECT_PARAMS.errorCode, final.data?.code);
+      fragment.set(REDIRECT_PARAMS.errorMessage, final.data?.message);
+      break;
+    
+    default:
+      fragment.set(REDIRECT_PARAMS.status, 'cancel');
+  }
+  
+  const url = new URL(returnUrl);
+  url.hash = fragment.toString();
+  return url.toString();
+}
+
+/**
+ * Sign a token shaped like a real Agemin verification JWT
+ */
+async function signWithKey(
+  privateKey: CryptoKey,
+  claims: Required<Omit<SimulatedTokenClaims, 'fingerprint'>> & { fingerprint?: string; issuer: string; kid: string }
+): Promise<string> {
+  const data: Record<string, any> = {
+    session_token: generateId('session'),
+    age_threshold: claims.ageThreshold,
+    confidence: 'high',
+    verification_status: 'completed',
+    is_adult: claims.isOfAge,
+    is_of_age: claims.isOfAge,
+    passed: claims.isOfAge,
+    face_confidence: 0.98,
+    domain: claims.domain
+  };
+  
+  if (claims.fingerprint) {
+    data.fp = claims.fingerprint;
+  }
+  
+  return new SignJWT({ data })
+    .setProtectedHeader({ alg: 'RS256', kid: claims.kid })
+    .setIssuer(claims.issuer)
+    .setSubject(claims.referenceId)
+    .setIssuedAt()
+    .setJti(generateId('jti'))
+    .setExpirationTime(`${claims.expiresIn}s`)
+    .sign(privateKey);
+}
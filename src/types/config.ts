@@ -1,6 +1,231 @@
 export type Theme = 'light' | 'dark' | 'auto';
-export type VerificationMode = 'modal' | 'redirect';
+export type VerificationMode = 'modal' | 'popup' | 'redirect' | 'inline';
+export type FallbackMode = 'self-declare';
+export type VerificationMethod = 'verification' | 'self_declared';
+export type JurisdictionMethod = 'verification' | 'self-declare';
+export type GateStrategy = 'blur' | 'hide' | 'remove';
+export type TokenStorageType = 'cookie' | 'localStorage' | 'sessionStorage' | 'memory';
+export type TokenStorage = TokenStorageType | TokenStorageAdapter;
+export type ExpiryAction = 'revalidate' | 'regate';
+export type FingerprintProvider = () => string | Promise<string>;
+export type FingerprintMismatchPolicy = 'reject' | 'warn' | 'reverify-silently' | 'accept';
+export type CookieSameSite = 'Lax' | 'Strict' | 'None';
 export type SearchEngineDetectionMode = 'ua' | 'headless' | 'cookies' | 'combined' | 'strict';
+export type BotPattern = string | RegExp;
+export type BotSignal = () => boolean;
+
+export interface JurisdictionRule {
+  /**
+   * Whether visitors from this region must be age-checked at all
+   */
+  required: boolean;
+  
+  /**
+   * Legal minimum age in this region
+   * Stored tokens issued for a lower threshold trigger re-verification
+   * @default 18
+   */
+  minimumAge?: number;
+  
+  /**
+   * How to check age in this region
+   * - 'verification': face-based Agemin verification
+   * - 'self-declare': SDK-rendered "Are you {age} or older?" dialog
+   * @default 'verification'
+   */
+  method?: JurisdictionMethod;
+}
+
+export interface TokenStorageAdapter {
+  /**
+   * Read the stored token (null when there is none)
+   */
+  get(key: string): string | null | Promise<string | null>;
+  
+  /**
+   * Store the token
+   * @param expiresSeconds - Lifetime in seconds, null for session-only
+   */
+  set(key: string, value: string, expiresSeconds: number | null): void | Promise<void>;
+  
+  /**
+   * Remove the stored token
+   */
+  remove(key: string): void | Promise<void>;
+}
+
+export interface CookieOptions {
+  /**
+   * Cookie name (same as `storageKey`)
+   * @default 'agemin_verification'
+   */
+  name?: string;
+  
+  /**
+   * Cookie domain
+   * - 'auto': registrable domain, shared across subdomains (e.g. 'example.co.uk' on
+   *   'shop.example.co.uk'; host-only on 'app.vercel.app'). Found by probing which parent
+   *   domain the browser accepts a cookie for, so it follows the browser's public suffix list
+   * - null or '': host-only cookie
+   * - any other value is used as-is
+   * @default 'auto'
+   */
+  domain?: string | null;
+  
+  /**
+   * Cookie path
+   * @default '/'
+   */
+  path?: string;
+  
+  /**
+   * SameSite attribute; 'None' requires HTTPS
+   * @default 'Lax'
+   */
+  sameSite?: CookieSameSite;
+  
+  /**
+   * Set the `Partitioned` attribute (CHIPS) for use in third-party iframes; requires HTTPS
+   * @default false
+   */
+  partitioned?: boolean;
+  
+  /**
+   * Maximum cookie lifetime in seconds, even if the token expires later
+   */
+  maxAge?: number;
+}
+
+export interface TokenPolicy {
+  /**
+   * Minimum age threshold (`data.age_threshold`) a stored token must have been issued for
+   */
+  minimumAge?: number;
+  
+  /**
+   * Minimum face match score (`data.face_confidence`)
+   */
+  minFaceConfidence?: number;
+  
+  /**
+   * Accepted confidence levels (`data.confidence`), e.g. ['high', 'medium']
+   */
+  confidence?: string[];
+  
+  /**
+   * Maximum seconds since the token was issued (`iat`), even if it has not expired
+   */
+  maxTokenAge?: number;
+}
+
+export interface ConsentState {
+  /**
+   * Persistent token storage (cookie, Web Storage, custom adapter) is allowed
+   */
+  storage: boolean;
+  
+  /**
+   * Device fingerprinting is allowed
+   */
+  fingerprint: boolean;
+}
+
+export type ConsentProvider = () => ConsentState | Promise<ConsentState>;
+
+export interface ConsentOptions {
+  /**
+   * Where consent comes from
+   * - 'tcf': IAB TCF v2 CMP via `window.__tcfapi`
+   * - custom function resolving to `{ storage, fingerprint }`
+   * @default 'tcf'
+   */
+  provider?: 'tcf' | ConsentProvider;
+  
+  /**
+   * TCF purposes required for persistent token storage
+   * @default [1] (store and/or access information on a device)
+   */
+  storagePurposes?: number[];
+  
+  /**
+   * TCF purposes required for device fingerprinting
+   * @default [1]
+   */
+  fingerprintPurposes?: number[];
+  
+  /**
+   * TCF special features the visitor must opt in to for device fingerprinting
+   * @default [2] (actively scan device characteristics for identification)
+   */
+  fingerprintSpecialFeatures?: number[];
+  
+  /**
+   * Milliseconds to wait for the CMP before treating consent as denied
+   * @default 3000
+   */
+  timeout?: number;
+}
+
+export interface ExpiryOptions {
+  /**
+   * Seconds before expiry to emit the 'expiring' event
+   * @default 60
+   */
+  warnBefore?: number;
+  
+  /**
+   * What to do when the stored token expires
+   * - 'revalidate': run validateSession() again
+   * - 'regate': hide content revealed by gate() and re-check protected routes
+   * @default null (only emit the 'expired' event)
+   */
+  action?: ExpiryAction | null;
+}
+
+export interface BotDetectionOptions {
+  /**
+   * Extra user agent patterns that count as a crawler
+   * Strings match case-insensitively anywhere in the user agent
+   */
+  allow?: BotPattern[];
+  
+  /**
+   * User agent patterns that never count as a crawler, checked before any other pattern or signal
+   * A match wins over the headless, cookie and custom signals in every detection mode,
+   * e.g. ['YaBrowser'] to keep the Yandex Browser gated
+   */
+  deny?: BotPattern[];
+  
+  /**
+   * Built-in patterns to drop, or true to drop the whole built-in list
+   * @default []
+   */
+  removeDefaults?: string[] | true;
+  
+  /**
+   * Custom signals keyed by name
+   * Any signal that fires marks the visitor as a crawler, whatever the detection mode, unless
+   * a 'deny' pattern matched (a throwing signal counts as not fired)
+   */
+  signals?: Record<string, BotSignal>;
+}
+
+export interface Jurisdiction {
+  /**
+   * Region the rule was matched for (null if unknown)
+   */
+  region: string | null;
+  
+  /**
+   * Where the region came from
+   */
+  source: 'config' | 'detected' | 'none';
+  
+  /**
+   * Matched rule (null when no rules are configured or none match)
+   */
+  rule: JurisdictionRule | null;
+}
 
 export interface AgeminConfig {
   /**
@@ -35,6 +260,13 @@ export interface AgeminConfig {
    */
   verificationURL?: string;
   
+  /**
+   * Additional origins allowed to post verification messages
+   * Origins of `baseUrl` and `verificationURL` are always trusted
+   * Matched exactly, e.g. 'https://verify.example.com'
+   */
+  trustedOrigins?: string[];
+  
   /**
    * URL to redirect to on error
    */
@@ -57,6 +289,12 @@ export interface AgeminConfig {
    */
   mode?: VerificationMode;
   
+  /**
+   * Element (or CSS selector) to render the verification into
+   * Required for 'inline' mode
+   */
+  container?: HTMLElement | string | null;
+  
   /**
    * Theme for the verification interface
    * @default 'auto'
@@ -93,6 +331,122 @@ export interface AgeminConfig {
    * @default 'ua'
    */
   searchEngineDetection?: SearchEngineDetectionMode;
+  
+  /**
+   * Tune the crawler patterns and signals used by the bypass
+   */
+  botDetection?: BotDetectionOptions;
+  
+  /**
+   * Fallback when verification fails with a technical error
+   * - 'self-declare': show an SDK-rendered "Are you {age} or older?" dialog and
+   *   resolve with the visitor's answer (result `method` is 'self_declared')
+   * @default null (reject and call onError)
+   */
+  fallback?: FallbackMode | null;
+  
+  /**
+   * Age asked for in the self-declaration fallback dialog when no jurisdiction rule,
+   * `policy` or `minimumAge` sets a threshold
+   * @default 18
+   */
+  selfDeclareAge?: number;
+  
+  /**
+   * Jurisdiction rules keyed by region code
+   * Keys are ISO 3166-1 country codes ('DE'), ISO 3166-2 subdivisions ('US-TX') or '*' as default
+   * The most specific match wins. Without rules every visitor is verified.
+   */
+  rules?: Record<string, JurisdictionRule> | null;
+  
+  /**
+   * Visitor region provided by your server (e.g. from a GeoIP lookup), such as 'US-TX' or 'DE'
+   * When omitted, the region is guessed from the browser timezone and locale
+   */
+  region?: string | null;
+  
+  /**
+   * JWKS document URL used to resolve token signing keys by `kid`
+   * Allows key rotation without an SDK release. Bundled keys are used when omitted or unreachable
+   */
+  jwksUrl?: string | null;
+  
+  /**
+   * Expected token issuer (`iss` claim), e.g. a staging issuer
+   * @default 'agemin.com'
+   */
+  issuer?: string;
+  
+  /**
+   * Where the verification token is kept
+   * - 'cookie': first-party cookie, readable by your server (default)
+   * - 'localStorage' / 'sessionStorage': Web Storage, for sites that cannot set cookies
+   * - 'memory': current page only
+   * - custom `{ get, set, remove }` adapter; methods may return promises (e.g. IndexedDB)
+   * @default 'cookie'
+   */
+  storage?: TokenStorage;
+  
+  /**
+   * Cookie name or storage key for the verification token
+   * Use a distinct key to scope verifications per app on a shared domain
+   * @default 'agemin_verification'
+   */
+  storageKey?: string;
+  
+  /**
+   * Attributes for the verification cookie ('cookie' storage only)
+   */
+  cookie?: CookieOptions;
+  
+  /**
+   * Share verification outcomes with other open tabs of the site
+   * A completed verification closes the modal in other tabs; clearVerification() re-gates them
+   * @default true
+   */
+  syncTabs?: boolean;
+  
+  /**
+   * Watch the stored token's expiry, emit 'expiring'/'expired' events and optionally re-verify
+   */
+  expiry?: ExpiryOptions;
+  
+  /**
+   * Requirements a stored token must meet to be accepted
+   * Tokens that don't meet the policy trigger re-verification
+   */
+  policy?: TokenPolicy | null;
+  
+  /**
+   * Check consent before fingerprinting and persistent token storage
+   * Without consent, tokens are kept in memory only and verification URLs carry no fingerprint.
+   * Tokens are moved to the configured storage once storage consent is granted.
+   * @default null (no consent checks)
+   */
+  consent?: ConsentOptions | null;
+  
+  /**
+   * Device fingerprint binding tokens to the device
+   * - true: built-in FingerprintJS fingerprint
+   * - false: no fingerprint (URLs carry none, token bindings are not checked)
+   * - custom function resolving to a stable device identifier
+   * @default true
+   */
+  fingerprint?: boolean | FingerprintProvider;
+  
+  /**
+   * What to do when a stored token is bound to a different fingerprint
+   * (fingerprints can drift after ordinary browser updates)
+   * - 'reject': the token is invalid and a new verification is launched
+   * - 'warn': accept the token and log a warning
+   * - 'reverify-silently': accept the token without logging and mark its binding as stale; the next
+   *   verification (`verify()` or a re-verification by `validateSession()`) binds the new token to
+   *   this device. The SDK never starts one on its own, since a verification needs the visitor.
+   * - 'accept': alias of 'reverify-silently'
+   * Accepted mismatches emit the 'fingerprintMismatch' event.
+   * @default 'reject'
+   */
+  fingerprintMismatch?: FingerprintMismatchPolicy;
 }
 
 export interface VerifyOptions {
@@ -102,6 +456,18 @@ export interface VerifyOptions {
    */
   mode?: VerificationMode;
   
+  /**
+   * Element (or CSS selector) to render into for 'inline' mode
+   * Overrides the instance `container`
+   */
+  container?: HTMLElement | string;
+  
+  /**
+   * Minimum age threshold a stored token must have been issued for
+   * Tokens for a lower threshold trigger a new verification
+   */
+  minimumAge?: number;
+  
   /**
    * Override the theme for this verification
    */
@@ -153,6 +519,139 @@ export interface VerifyOptions {
   onClose?: () => void;
 }
 
+export interface GateOptions extends VerifyOptions {
+  /**
+   * Elements to hide until the visitor is verified
+   * @default 'body > *:not([id^="agemin-"])'
+   */
+  selectors?: string | string[];
+  
+  /**
+   * How gated content is hidden
+   * - 'blur': blurred and non-interactive
+   * - 'hide': invisible, layout preserved
+   * - 'remove': detached from the DOM until revealed
+   * @default 'blur'
+   */
+  strategy?: GateStrategy;
+}
+
+export interface ProtectedRoute {
+  /**
+   * Path pattern ('*' wildcard, e.g. '/adult/*') or regular expression
+   */
+  path: string | RegExp;
+  
+  /**
+   * Minimum age threshold required for this route
+   */
+  minimumAge?: number;
+}
+
+export interface ProtectRoutesOptions extends VerifyOptions {
+  /**
+   * Path to send visitors to when they cancel or fail verification
+   * Defaults to the page they came from (or '/' on a direct visit)
+   */
+  fallbackPath?: string;
+}
+
+export type VerificationStatusReason =
+  | 'missing_token'
+  | 'invalid_token'
+  | 'underage'
+  | 'below_minimum_age'
+  | 'low_face_confidence'
+  | 'confidence_not_allowed'
+  | 'token_too_old';
+
+export interface VerificationStatus {
+  /**
+   * A valid, of-age token meeting the required age threshold is stored
+   */
+  verified: boolean;
+  
+  /**
+   * `is_of_age` claim of a valid token (null without one)
+   */
+  isOfAge: boolean | null;
+  
+  /**
+   * Age threshold the token was issued for
+   */
+  ageThreshold: number | null;
+  
+  /**
+   * Verification confidence level
+   */
+  confidence: string | null;
+  
+  /**
+   * Face match confidence score
+   */
+  faceConfidence: number | null;
+  
+  /**
+   * Token expiry (seconds since epoch)
+   */
+  expiresAt: number | null;
+  
+  /**
+   * Domain the token was issued for
+   */
+  domain: string | null;
+  
+  /**
+   * Why the visitor is not verified (null when verified)
+   */
+  reason: VerificationStatusReason | null;
+}
+
+export interface BotDetectionReport {
+  /**
+   * Whether the visitor counts as a crawler under the detection mode
+   */
+  isBot: boolean;
+  
+  /**
+   * Detection mode the decision was made with
+   */
+  mode: SearchEngineDetectionMode;
+  
+  /**
+   * User agent that was checked
+   */
+  userAgent: string;
+  
+  /**
+   * Pattern that matched the user agent (a 'deny' pattern when the user agent was excluded)
+   */
+  matchedPattern: string | null;
+  
+  /**
+   * A 'deny' pattern matched, so the visitor is not a crawler whatever the other signals say
+   */
+  denied: boolean;
+  
+  /**
+   * Which signals fired
+   * - userAgent: the user agent matches a crawler pattern
+   * - plugins: navigator.plugins is empty
+   * - languages: navigator.languages is empty
+   * - webgl: headless WebGL vendor/renderer
+   * - cookies: cookies cannot be set
+   * - custom: custom signals from `botDetection.signals`
+   */
+  signals: {
+    userAgent: boolean;
+    plugins: boolean;
+    languages: boolean;
+    webgl: boolean;
+    cookies: boolean;
+    custom: Record<string, boolean>;
+  };
+}
+
 export interface VerificationResult {
   /**
    * Unique reference ID for this verification
@@ -170,6 +669,12 @@ export interface VerificationResult {
    * Timestamp when verification completed
    */
   timestamp: number;
+  
+  /**
+   * How the result was obtained
+   * 'self_declared' means the visitor only confirmed their age in the fallback dialog
+   */
+  method?: VerificationMethod;
 }
 
 export interface VerificationError {
@@ -1,3 +1,5 @@
+import { VerificationResult, VerificationError } from './config';
+
 export enum MessageType {
   SUCCESS = 'agemin:verification:success',
   ERROR = 'agemin:verification:error',
@@ -23,4 +25,61 @@ export interface AgeminMessage<T = any> {
 export interface ResizeData {
   width: number;
   height: number;
-}
\ No newline at end of file
+}
+
+export interface ProgressData {
+  percentage: number;
+  stage?: string;
+  message?: string;
+}
+
+export interface StateChangeData {
+  from: string;
+  to: string;
+  data?: any;
+}
+
+export interface UserActionData {
+  type: string;
+  target?: string;
+  data?: any;
+}
+
+export interface TokenExpiryData {
+  /**
+   * Token expiry (seconds since epoch)
+   */
+  expiresAt: number;
+  
+  /**
+   * Seconds until expiry (0 once expired)
+   */
+  secondsLeft: number;
+}
+
+/**
+ * Events emitted by an Agemin instance, keyed by name with their payload
+ */
+export interface AgeminEventMap {
+  appReady: void;
+  progress: ProgressData;
+  stateChange: StateChangeData;
+  userAction: UserActionData;
+  success: VerificationResult;
+  agePass: VerificationResult;
+  ageFail: VerificationResult;
+  error: VerificationError;
+  cancel: void;
+  close: void;
+  cleared: void;
+  expiring: TokenExpiryData;
+  expired: TokenExpiryData;
+  fingerprintMismatch: void;
+}
+
+export type AgeminEventName = keyof AgeminEventMap;
+
+export type AgeminEventHandler<K extends AgeminEventName> =
+  AgeminEventMap[K] extends void ? () => void : (data: AgeminEventMap[K]) => void;
+
+export type Unsubscribe = () => void;
@@ -1,2 +1,3 @@
 export * from './config';
-export * from './events';
\ No newline at end of file
+export * from './events';
+export * from './token';
@@ -0,0 +1,94 @@
+export interface JWTPayload {
+  iss: string;
+  sub: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  data: {
+    session_token: string;
+    age_threshold: number;
+    confidence: string;
+    verification_status: string;
+    is_adult: boolean;
+    is_of_age: boolean;
+    passed: boolean;
+    face_confidence: number;
+    domain: string;
+    asset_token?: string;
+    fp?: string;
+  };
+}
+
+export interface TokenValidationResult {
+  /**
+   * Signature, expiration and claims are all valid
+   */
+  isValid: boolean;
+  
+  /**
+   * Token is valid and `data.is_of_age` is true
+   */
+  isOfAge: boolean;
+  
+  /**
+   * Decoded payload (only present when the token is valid)
+   */
+  payload?: JWTPayload;
+  
+  /**
+   * Reason the token was rejected
+   */
+  error?: string;
+  
+  /**
+   * The token is bound to a different device fingerprint
+   * Only set on valid tokens when `allowFingerprintMismatch` is enabled
+   */
+  fingerprintMismatch?: boolean;
+}
+
+export interface VerifyTokenOptions {
+  /**
+   * Hostname the token must be issued for, or a list of accepted hostnames
+   * Subdomains of the token domain are accepted. Skipped when omitted.
+   * On a server, use your configured site domain(s): the Host header is set by the client.
+   */
+  expectedDomain?: string | string[];
+  
+  /**
+   * Accept any token when `expectedDomain` is localhost or an IP address (local development)
+   * Never enable this with a hostname taken from the request's Host header, which the client controls
+   * @default false
+   */
+  allowLocalDomain?: boolean;
+  
+  /**
+   * Device fingerprint the token must be bound to
+   * Only checked when both this and the token's `fp` claim are present
+   */
+  expectedFingerprint?: string;
+  
+  /**
+   * Accept tokens bound to a different fingerprint (flagged with `fingerprintMismatch`)
+   * @default false
+   */
+  allowFingerprintMismatch?: boolean;
+  
+  /**
+   * JWKS document to resolve signing keys from (by `kid`)
+   * Bundled Agemin keys are used when omitted or unreachable
+   */
+  jwksUrl?: string | null;
+  
+  /**
+   * Expected `iss` claim (e.g. a staging issuer)
+   * @default 'agemin.com'
+   */
+  issuer?: string;
+  
+  /**
+   * Date used for expiration checks
+   * @default new Date()
+   */
+  now?: Date;
+}
@@ -0,0 +1,140 @@
+/**
+ * Consent checks for fingerprinting and persistent token storage
+ * Reads the IAB TCF v2 CMP API (`__tcfapi`) or a custom provider.
+ */
+
+import { ConsentOptions, ConsentState } from '../types';
+
+interface TCData {
+  gdprApplies?: boolean;
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  listenerId?: number;
+  purpose?: { consents?: Record<string, boolean> };
+  specialFeatureOptins?: Record<string, boolean>;
+}
+
+type TCFApi = (command: string, version: number, callback: (data: any, success: boolean) => void, parameter?: any) => void;
+
+declare global {
+  interface Window {
+    __tcfapi?: TCFApi;
+  }
+}
+
+const GRANTED: ConsentState = { storage: true, fingerprint: true };
+const DENIED: ConsentState = { storage: false, fingerprint: false };
+
+const DEFAULT_CONSENT_TIMEOUT = 3000;
+
+function hasAll(granted: Record<string, boolean> | undefined, ids: number[]): boolean {
+  return ids.every(id => granted?.[id] === true);
+}
+
+/**
+ * Wait for the TCF v2 CMP to report a decision
+ * Resolves with everything denied if there is no CMP or it doesn't answer in time.
+ * 
+ * @param onChange - Called once the visitor acts in the CMP after the state was resolved (including
+ *   after a timeout); the CMP listener stays registered until then. Without it the listener is
+ *   removed as soon as the state is resolved.
+ */
+function readTcfConsent(options: ConsentOptions, onChange?: () => void): Promise<ConsentState> {
+  const tcfapi = typeof window !== 'undefined' ? window.__tcfapi : undefined;
+  if (typeof tcfapi !== 'function') {
+    return Promise.resolve(DENIED);
+  }
+  
+  const storagePurposes = options.storagePurposes || [1];
+  const fingerprintPurposes = options.fingerprintPurposes || [1];
+  const fingerprintSpecialFeatures = options.fingerprintSpecialFeatures || [2];
+  
+  return new Promise(resolve => {
+    let settled = false;
+    let listening = true;
+    // Known from the first callback; the timeout may fire before it arrives
+    let listenerId: number | undefined;
+    
+    const stopListening = () => {
+      if (!listening || listenerId === undefined) return;
+      listening = false;
+      tcfapi('removeEventListener', 2, () => {}, listenerId);
+    };
+    
+    const finish = (state: ConsentState) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (!onChange) {
+        stopListening();
+      }
+      resolve(state);
+    };
+    
+    const timer = setTimeout(() => finish(DENIED), options.timeout ?? DEFAULT_CONSENT_TIMEOUT);
+    
+    try {
+      tcfapi('addEventListener', 2, (tcData: TCData, success: boolean) => {
+        if (!success || !tcData) return;
+        
+        if (listenerId === undefined && tcData.listenerId !== undefined) {
+          listenerId = tcData.listenerId;
+        }
+        
+        if (settled) {
+          if (!onChange) {
+            // Answered after the timeout
+            stopListening();
+          } else if (listening && tcData.eventStatus === 'useractioncomplete') {
+            stopListening();
+            onChange();
+          }
+          return;
+        }
+        
+        // TCF does not apply to this visitor
+        if (tcData.gdprApplies === false) {
+          finish(GRANTED);
+          return;
+        }
+        
+        // Keep waiting while the consent UI is shown
+        if (tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete') return;
+        
+        finish({
+          storage: hasAll(tcData.purpose?.consents, storagePurposes),
+          fingerprint: hasAll(tcData.purpose?.consents, fingerprintPurposes) &&
+            hasAll(tcData.specialFeatureOptins, fingerprintSpecialFeatures)
+        });
+      });
+    } catch {
+      finish(DENIED);
+    }
+  });
+}
+
+/**
+ * Resolve the current consent state
+ * Without a `consent` config everything is allowed (no consent checks).
+ * 
+ * @param onChange - TCF only: called when the visitor later acts in the CMP, so a cached state can be dropped
+ */
+export async function resolveConsent(
+  options: ConsentOptions | null | undefined,
+  onChange?: () => void
+): Promise<ConsentState> {
+  if (!options) {
+    return GRANTED;
+  }
+  
+  if (typeof options.provider === 'function') {
+    try {
+      const state = await options.provider();
+      return { storage: state?.storage === true, fingerprint: state?.fingerprint === true };
+    } catch (error) {
+      console.warn('Agemin SDK: Consent provider failed, treating consent as denied', error);
+      return DENIED;
+    }
+  }
+  
+  return readTcfConsent(options, onChange);
+}
@@ -1,5 +1,17 @@
 export const SDK_VERSION = '__VERSION__';
 
+// Cookie holding the verification JWT (read by the browser SDK and server helpers)
+export const VERIFICATION_COOKIE_NAME = 'agemin_verification';
+
+// URL parameters (query or fragment) carrying the outcome back to the return page in redirect mode
+export const REDIRECT_PARAMS = {
+  status: 'agemin_status',
+  jwt: 'agemin_jwt',
+  exp: 'agemin_exp',
+  errorCode: 'agemin_error_code',
+  errorMessage: 'agemin_error'
+};
+
 export const DEFAULT_CONFIG = {
   baseUrl: 'https://verify.agemin.com',
   mode: 'modal' as const,
@@ -7,7 +19,22 @@ export const DEFAULT_CONFIG = {
   locale: 'auto',
   debug: false,
   allowSearchEngineBypass: false,
-  searchEngineDetection: 'ua' as const
+  searchEngineDetection: 'ua' as const,
+  issuer: 'agemin.com',
+  fallback: null,
+  selfDeclareAge: 18,
+  storage: 'cookie' as const,
+  storageKey: VERIFICATION_COOKIE_NAME,
+  syncTabs: true,
+  expiry: { warnBefore: 60, action: null },
+  fingerprint: true,
+  fingerprintMismatch: 'reject' as const
+};
+
+export const POPUP_SIZE = {
+  width: 500,
+  height: 720,
+  closePollInterval: 500
 };
 
 export const MODAL_STYLES = {
@@ -113,6 +140,135 @@ export const MOBILE_MODAL_STYLES = {
   `
 };
 
+// Inline styles (mounted into a host container, no overlay)
+export const INLINE_STYLES = {
+  container: `
+    position: relative;
+    width: 100%;
+    height: 600px;
+    min-height: 400px;
+    overflow: hidden;
+    transition: height 0.3s ease-out;
+  `,
+  iframe: `
+    width: 100%;
+    height: 100%;
+    border: none;
+  `
+};
+
+// Content gate styles per strategy (applied to the gated selectors)
+export const GATE_STYLES = {
+  blur: 'filter: blur(20px) !important; pointer-events: none !important; user-select: none !important;',
+  hide: 'visibility: hidden !important;',
+  remove: 'display: none !important;'
+};
+
+// Default gated content: everything in <body> except the SDK's own elements
+export const DEFAULT_GATE_SELECTOR = 'body > *:not([id^="agemin-"])';
+
+// Self-declaration fallback dialog styles
+export const SELF_DECLARE_STYLES = {
+  dialog: `
+    position: relative;
+    width: 90%;
+    max-width: 400px;
+    padding: 32px 24px 24px;
+    border-radius: 16px;
+    box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3);
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    text-align: center;
+    z-index: 999999;
+    animation: agemin-slide-up 0.3s ease-out;
+  `,
+  title: `
+    margin: 0 0 12px;
+    font-size: 22px;
+    font-weight: 600;
+  `,
+  message: `
+    margin: 0 0 24px;
+    font-size: 15px;
+    line-height: 1.5;
+    opacity: 0.75;
+  `,
+  actions: `
+    display: flex;
+    gap: 12px;
+  `,
+  button: `
+    flex: 1;
+    padding: 12px 16px;
+    border-radius: 8px;
+    font-size: 16px;
+    font-weight: 500;
+    cursor: pointer;
+  `,
+  light: {
+    dialog: 'background: white; color: #111827;',
+    confirm: 'background: #3b82f6; color: white; border: 1px solid #3b82f6;',
+    deny: 'background: white; color: #111827; border: 1px solid #d1d5db;'
+  },
+  dark: {
+    dialog: 'background: #1f2937; color: #f9fafb;',
+    confirm: 'background: #3b82f6; color: white; border: 1px solid #3b82f6;',
+    deny: 'background: #1f2937; color: #f9fafb; border: 1px solid #4b5563;'
+  }
+};
+
+// Self-declaration fallback dialog texts by language ({age} is replaced)
+export const SELF_DECLARE_TEXTS: Record<string, { title: string; jurisdiction: string; fallback: string; confirm: string; deny: string }> = {
+  en: {
+    title: 'Are you {age} or older?',
+    jurisdiction: 'Please confirm your age to continue.',
+    fallback: "We couldn't complete the age check. Please confirm your age to continue.",
+    confirm: 'Yes, I am',
+    deny: 'No'
+  },
+  de: {
+    title: 'Bist du {age} Jahre oder älter?',
+    jurisdiction: 'Bitte bestätige dein Alter, um fortzufahren.',
+    fallback: 'Die Altersprüfung konnte nicht abgeschlossen werden. Bitte bestätige dein Alter, um fortzufahren.',
+    confirm: 'Ja, bin ich',
+    deny: 'Nein'
+  },
+  fr: {
+    title: 'Avez-vous {age} ans ou plus ?',
+    jurisdiction: 'Veuillez confirmer votre âge pour continuer.',
+    fallback: "La vérification de l'âge n'a pas pu aboutir. Veuillez confirmer votre âge pour continuer.",
+    confirm: 'Oui',
+    deny: 'Non'
+  },
+  es: {
+    title: '¿Tienes {age} años o más?',
+    jurisdiction: 'Confirma tu edad para continuar.',
+    fallback: 'No pudimos completar la verificación de edad. Confirma tu edad para continuar.',
+    confirm: 'Sí',
+    deny: 'No'
+  },
+  it: {
+    title: 'Hai {age} anni o più?',
+    jurisdiction: 'Conferma la tua età per continuare.',
+    fallback: "Non è stato possibile completare la verifica dell'età. Conferma la tua età per continuare.",
+    confirm: 'Sì',
+    deny: 'No'
+  },
+  nl: {
+    title: 'Ben je {age} jaar of ouder?',
+    jurisdiction: 'Bevestig je leeftijd om verder te gaan.',
+    fallback: 'De leeftijdscontrole kon niet worden voltooid. Bevestig je leeftijd om verder te gaan.',
+    confirm: 'Ja',
+    deny: 'Nee'
+  },
+  pt: {
+    title: 'Tem {age} anos ou mais?',
+    jurisdiction: 'Confirme a sua idade para continuar.',
+    fallback: 'Não foi possível concluir a verificação de idade. Confirme a sua idade para continuar.',
+    confirm: 'Sim',
+    deny: 'Não'
+  }
+};
+
 export const SPINNER_STYLES = {
   container: `
     position: absolute;
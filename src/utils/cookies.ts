@@ -1,13 +1,83 @@
+import { CookieOptions } from '../types';
+
 /**
  * Cookie utility functions for managing age verification cookies
  */
 
+const PROBE_COOKIE = 'agemin_domain_probe';
+
+// Registrable domain found by getRegistrableDomain(), per hostname
+let registrableDomainCache: { hostname: string; domain: string | null } | null = null;
+
+/**
+ * Registrable domain of the current host, e.g. 'example.co.uk' on 'shop.example.co.uk'
+ * 
+ * Browsers refuse cookies for public suffixes, using their own up-to-date copy of the
+ * Public Suffix List (country registries like 'com.tn' and shared hosts like 'vercel.app'
+ * alike), so the shortest parent domain that accepts a test cookie is the registrable
+ * domain. Returns null, meaning host-only, for IP addresses, single-label hosts and
+ * when no parent domain accepts the cookie.
+ */
+export function getRegistrableDomain(options: CookieOptions = {}): string | null {
+  const hostname = window.location.hostname.toLowerCase().replace(/\.$/, '');
+  if (registrableDomainCache && registrableDomainCache.hostname === hostname) {
+    return registrableDomainCache.domain;
+  }
+  
+  let domain: string | null = null;
+  
+  if (hostname.includes('.') && !/^[\d.]+$/.test(hostname) && !hostname.includes(':')) {
+    const labels = hostname.split('.');
+    const value = Math.random().toString(36).slice(2);
+    const probeOptions = { ...options, path: '/', maxAge: undefined };
+    
+    // Shortest first: the top-level label is always refused
+    for (let i = labels.length - 2; i >= 0; i--) {
+      const candidate = labels.slice(i).join('.');
+      setCookie(PROBE_COOKIE, value, null, { ...probeOptions, domain: candidate });
+      
+      if (getCookie(PROBE_COOKIE) === value) {
+        setCookie(PROBE_COOKIE, '', -1, { ...probeOptions, domain: candidate });
+        domain = candidate;
+        break;
+      }
+    }
+  }
+  
+  registrableDomainCache = { hostname, domain };
+  return domain;
+}
+
+/**
+ * Resolve the cookie domain attribute value
+ * 'auto' shares the cookie across subdomains of the registrable domain;
+ * null or '' makes it host-only.
+ */
+export function resolveCookieDomain(options: CookieOptions = {}): string | null {
+  const domain = options.domain === undefined ? 'auto' : options.domain;
+  if (domain === 'auto') {
+    return getRegistrableDomain(options);
+  }
+  return domain || null;
+}
+
 /**
  * Set a cookie with the given name, value, and expiration
+ * @param expiresSeconds - Lifetime in seconds; null or 0 for a session cookie, negative to expire it
  */
-export function setCookie(name: string, value: string, expiresSeconds: number | null): void {
+export function setCookie(
+  name: string,
+  value: string,
+  expiresSeconds: number | null,
+  options: CookieOptions = {}
+): void {
   let expires = '';
   
+  // Cap persistent cookies at the configured max age
+  if (expiresSeconds !== null && expiresSeconds > 0 && options.maxAge) {
+    expiresSeconds = Math.min(expiresSeconds, options.maxAge);
+  }
+  
   if (expiresSeconds === null || expiresSeconds === 0) {
     // Session cookie - no expires attribute means it expires when browser closes
     expires = '';
@@ -16,32 +86,31 @@ export function setCookie(name: string, value: string, expiresSeconds: number |
     const date = new Date();
     date.setTime(date.getTime() + (expiresSeconds * 1000));
     expires = '; expires=' + date.toUTCString();
+  } else {
+    expires = '; expires=Thu, 01 Jan 1970 00:00:00 UTC';
   }
   
-  // Get the current domain (without subdomain for broader compatibility)
-  const domain = window.location.hostname;
-  const domainParts = domain.split('.');
-  let cookieDomain = '';
-  
-  // For localhost or IP addresses, don't set domain
-  if (domain === 'localhost' || /^[\d.]+$/.test(domain)) {
-    cookieDomain = '';
-  } else if (domainParts.length >= 2) {
-    // Set cookie for parent domain to work across subdomains
-    cookieDomain = '; domain=.' + domainParts.slice(-2).join('.');
-  }
+  // Share the cookie across subdomains, but never across a public suffix
+  // (e.g. example.co.uk, not co.uk; one tenant of vercel.app, not all of them)
+  const domain = resolveCookieDomain(options);
+  const cookieDomain = domain ? '; domain=.' + domain.replace(/^\./, '') : '';
   
-  // Build cookie string with security flags
-  // SameSite=Lax allows the cookie to be sent with top-level navigations
+  // SameSite=Lax (default) allows the cookie to be sent with top-level navigations
   // which is needed for the redirect flow
-  const cookieString = name + '=' + encodeURIComponent(value) + expires + cookieDomain + '; path=/; SameSite=Lax';
+  let cookieString = name + '=' + encodeURIComponent(value) + expires + cookieDomain +
+    '; path=' + (options.path || '/') + '; SameSite=' + (options.sameSite || 'Lax');
   
   // Only add Secure flag if on HTTPS (not localhost)
   if (window.location.protocol === 'https:') {
-    document.cookie = cookieString + '; Secure';
-  } else {
-    document.cookie = cookieString;
+    cookieString += '; Secure';
+    
+    // CHIPS: partitioned cookies must be Secure
+    if (options.partitioned) {
+      cookieString += '; Partitioned';
+    }
   }
+  
+  document.cookie = cookieString;
 }
 
 /**
@@ -65,23 +134,52 @@ export function getCookie(name: string): string | null {
 }
 
 /**
- * Delete a cookie by name
+ * Get a cookie value by name from a raw `Cookie` header
+ * Safe to use outside the browser (no DOM access)
  */
-export function deleteCookie(name: string): void {
-  // Delete cookie by setting expiration to past date
-  setCookie(name, '', -1);
+export function parseCookieHeader(header: string | null | undefined, name: string): string | null {
+  if (!header) return null;
   
-  // Also try to delete with current domain and parent domain
-  const domain = window.location.hostname;
-  document.cookie = name + '=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;';
-  document.cookie = name + '=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/; domain=' + domain + ';';
+  const nameEQ = name + '=';
+  const cookies = header.split(';');
   
-  // Try parent domain as well
-  const domainParts = domain.split('.');
-  if (domainParts.length >= 2) {
-    const parentDomain = '.' + domainParts.slice(-2).join('.');
-    document.cookie = name + '=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/; domain=' + parentDomain + ';';
+  for (let i = 0; i < cookies.length; i++) {
+    const cookie = cookies[i].trim();
+    if (cookie.indexOf(nameEQ) === 0) {
+      try {
+        return decodeURIComponent(cookie.substring(nameEQ.length));
+      } catch {
+        return cookie.substring(nameEQ.length);
+      }
+    }
   }
+  
+  return null;
+}
+
+/**
+ * Delete a cookie by name
+ * Clears every domain/path variant the cookie may have been written with
+ */
+export function deleteCookie(name: string, options: CookieOptions = {}): void {
+  const domains = new Set<string | null>([
+    null,  // host-only
+    window.location.hostname,
+    resolveCookieDomain(options),
+    getRegistrableDomain(options)
+  ]);
+  const paths = new Set<string>(['/', options.path || '/']);
+  
+  domains.forEach(domain => {
+    paths.forEach(path => {
+      setCookie(name, '', -1, { ...options, domain, path, maxAge: undefined });
+      
+      // Partitioned and unpartitioned cookies are separate, clear both
+      if (options.partitioned) {
+        setCookie(name, '', -1, { ...options, domain, path, partitioned: false, maxAge: undefined });
+      }
+    });
+  });
 }
 
 /**
@@ -1,3 +1,5 @@
+import { BotDetectionOptions, BotDetectionReport, BotPattern, BotSignal, SearchEngineDetectionMode } from '../types';
+
 /**
  * Check if the current device is mobile
  */
@@ -140,133 +142,220 @@ export function supportsCookies(): boolean {
 }
 
 /**
- * User agent based bot detection
+ * Built-in crawler user agent patterns
+ * Kept to crawler-specific names so browsers such as Yandex Browser or in-app
+ * browsers don't match
  */
-function isUserAgentBot(): boolean {
-  if (typeof navigator === 'undefined' || !navigator.userAgent) {
-    return false;
-  }
+const SEARCH_ENGINE_PATTERNS = [
+  // Google
+  'googlebot',
+  'adsbot-google',
+  'mediapartners-google',
+  'google-inspectiontool',
+  'googlesecurityscanner',
   
-  const userAgent = navigator.userAgent.toLowerCase();
+  // Bing/Microsoft
+  'bingbot',
+  'bingpreview',
+  'msnbot',
+  'adidxbot',
   
-  // Comprehensive list of search engine bot patterns
-  const searchEnginePatterns = [
-    // Google
-    'googlebot',
-    'adsbot-google',
-    'mediapartners-google',
-    'google-inspectiontool',
-    'googlesecurityscanner',
-    
-    // Bing/Microsoft
-    'bingbot',
-    'bingpreview',
-    'msnbot',
-    'adidxbot',
-    
-    // Baidu
-    'baiduspider',
-    'baidu',
-    
-    // Yandex
-    'yandexbot',
-    'yandex',
-    
-    // DuckDuckGo
-    'duckduckbot',
-    'duckduckgo',
-    
-    // Yahoo/Verizon
-    'slurp',
-    
-    // Social Media
-    'facebookexternalhit',
-    'facebookcatalog',
-    'twitterbot',
-    'linkedinbot',
-    'whatsapp',
-    'telegrambot',
-    'discordbot',
-    'slackbot',
-    
-    // Other Major Crawlers
-    'applebot',        // Apple
-    'ahrefsbot',       // Ahrefs SEO
-    'semrushbot',      // SEMrush SEO
-    'dotbot',          // Moz
-    'rogerbot',        // Moz
-    'seznambot',       // Seznam
-    'petalbot',        // Huawei
-    'mj12bot',         // Majestic
-    'blexbot',         // webmeup
-    'serpstatbot',     // Serpstat
-    'screaming frog',  // Screaming Frog SEO
-    
-    // Generic patterns
-    'bot',
-    'crawler',
-    'spider',
-    'scraper'
-  ];
+  // Baidu
+  'baiduspider',
+  
+  // Yandex
+  'yandexbot',
+  'yandeximages',
+  'yandexmobilebot',
+  
+  // DuckDuckGo
+  'duckduckbot',
+  
+  // Yahoo/Verizon
+  'slurp',
   
-  // Check if user agent contains any of the patterns
-  return searchEnginePatterns.some(pattern => userAgent.includes(pattern));
+  // Social Media
+  'facebookexternalhit',
+  'facebookcatalog',
+  'twitterbot',
+  'linkedinbot',
+  'telegrambot',
+  'discordbot',
+  'slackbot',
+  
+  // Other Major Crawlers
+  'applebot',        // Apple
+  'ahrefsbot',       // Ahrefs SEO
+  'semrushbot',      // SEMrush SEO
+  'dotbot',          // Moz
+  'rogerbot',        // Moz
+  'seznambot',       // Seznam
+  'petalbot',        // Huawei
+  'mj12bot',         // Majestic
+  'blexbot',         // webmeup
+  'serpstatbot',     // Serpstat
+  'screaming frog',  // Screaming Frog SEO
+  
+  // Generic patterns
+  'crawler',
+  'spider'
+];
+
+function getUserAgent(): string {
+  return typeof navigator !== 'undefined' && navigator.userAgent ? navigator.userAgent : '';
 }
 
-// Cache detection results to avoid repeated expensive operations
-let cachedDetectionResult: { mode: string; result: boolean; timestamp: number } | null = null;
-const CACHE_DURATION = 60000; // Cache for 1 minute
+function matchesPattern(userAgent: string, pattern: BotPattern): boolean {
+  if (typeof pattern === 'string') {
+    return userAgent.toLowerCase().includes(pattern.toLowerCase());
+  }
+  
+  pattern.lastIndex = 0;
+  return pattern.test(userAgent);
+}
 
 /**
- * Check if the current user agent is a search engine bot/crawler
- * Used to allow search engines to bypass age verification for SEO purposes
- * 
- * @param mode - Detection mode: 'ua' | 'headless' | 'cookies' | 'combined' | 'strict'
+ * User agent based bot detection
+ * Returns the matched pattern; `denied` is set when a 'deny' pattern excluded the user agent
  */
-export function isSearchEngineBot(mode: string = 'ua'): boolean {
-  // Check cache first
-  if (cachedDetectionResult && 
-      cachedDetectionResult.mode === mode &&
-      Date.now() - cachedDetectionResult.timestamp < CACHE_DURATION) {
-    return cachedDetectionResult.result;
-  }
+function matchUserAgent(options: BotDetectionOptions): { pattern: string | null; denied: boolean } {
+  const userAgent = getUserAgent();
+  if (!userAgent) return { pattern: null, denied: false };
+  
+  const denied = (options.deny || []).find(pattern => matchesPattern(userAgent, pattern));
+  if (denied) return { pattern: String(denied), denied: true };
   
-  let result = false;
+  const removed = options.removeDefaults;
+  const defaults = removed === true
+    ? []
+    : SEARCH_ENGINE_PATTERNS.filter(pattern => !(removed || []).includes(pattern));
   
+  const matched = [...defaults, ...(options.allow || [])].find(pattern => matchesPattern(userAgent, pattern));
+  return { pattern: matched ? String(matched) : null, denied: false };
+}
+
+/**
+ * Run a custom signal, treating a throwing signal as not fired
+ */
+function runSignal(signal: BotSignal): boolean {
+  try {
+    return !!signal();
+  } catch (e) {
+    return false;
+  }
+}
+
+function isCustomSignalBot(signals: Record<string, BotSignal> = {}): boolean {
+  return Object.keys(signals).some(name => runSignal(signals[name]));
+}
+
+/**
+ * Combine the signals according to the detection mode
+ * Signals are passed lazily so cheap modes never run the expensive checks
+ */
+function decide(mode: string, userAgent: () => boolean, headless: () => boolean, noCookies: () => boolean): boolean {
   switch (mode) {
-    case 'ua':
-      // User agent only (fastest, default)
-      result = isUserAgentBot();
-      break;
-      
     case 'headless':
       // Headless browser detection only
-      result = isHeadlessBrowser();
-      break;
+      return headless();
       
     case 'cookies':
       // Cookie support check only (crawlers typically don't support cookies)
-      result = !supportsCookies();
-      break;
+      return noCookies();
       
     case 'combined':
       // Any detection method triggers (most inclusive)
-      result = isUserAgentBot() || isHeadlessBrowser() || !supportsCookies();
-      break;
+      return userAgent() || headless() || noCookies();
       
     case 'strict':
       // Requires multiple signals (reduces false positives)
       // Must have bot UA AND (headless OR no cookies)
-      result = isUserAgentBot() && (isHeadlessBrowser() || !supportsCookies());
-      break;
+      return userAgent() && (headless() || noCookies());
       
     default:
-      // Default to UA detection for backward compatibility
-      result = isUserAgentBot();
+      // 'ua': user agent only (fastest, default)
+      return userAgent();
+  }
+}
+
+/**
+ * Run every bot detection signal and report which ones fired
+ * Unlike isSearchEngineBot() this is not cached and always runs all checks, for auditing the bypass
+ * 
+ * @param mode - Detection mode the decision is made with
+ * @param options - Pattern lists and custom signals
+ */
+export function detectBot(mode: SearchEngineDetectionMode = 'ua', options: BotDetectionOptions = {}): BotDetectionReport {
+  const match = matchUserAgent(options);
+  const custom: Record<string, boolean> = {};
+  Object.keys(options.signals || {}).forEach(name => {
+    custom[name] = runSignal(options.signals![name]);
+  });
+  
+  const signals = {
+    userAgent: !match.denied && match.pattern !== null,
+    plugins: isHeadlessPlugins(),
+    languages: isHeadlessLanguages(),
+    webgl: isHeadlessWebGL(),
+    cookies: !supportsCookies(),
+    custom
+  };
+  
+  const headless = signals.plugins || signals.languages || signals.webgl;
+  
+  return {
+    // A 'deny' match is final; otherwise custom signals count on their own, in every mode
+    isBot: !match.denied && (
+      decide(mode, () => signals.userAgent, () => headless, () => signals.cookies) ||
+      Object.keys(custom).some(name => custom[name])
+    ),
+    mode,
+    userAgent: getUserAgent(),
+    matchedPattern: match.pattern,
+    denied: match.denied,
+    signals
+  };
+}
+
+// Cache detection results to avoid repeated expensive operations
+let cachedDetectionResult: {
+  mode: string;
+  options: BotDetectionOptions;
+  result: boolean;
+  timestamp: number;
+} | null = null;
+const CACHE_DURATION = 60000; // Cache for 1 minute
+const NO_OPTIONS: BotDetectionOptions = {};
+
+/**
+ * Check if the current user agent is a search engine bot/crawler
+ * Used to allow search engines to bypass age verification for SEO purposes
+ * 
+ * @param mode - Detection mode: 'ua' | 'headless' | 'cookies' | 'combined' | 'strict'
+ * @param options - Pattern lists and custom signals
+ */
+export function isSearchEngineBot(mode: string = 'ua', options: BotDetectionOptions = NO_OPTIONS): boolean {
+  // Check cache first
+  if (cachedDetectionResult && 
+      cachedDetectionResult.mode === mode &&
+      cachedDetectionResult.options === options &&
+      Date.now() - cachedDetectionResult.timestamp < CACHE_DURATION) {
+    return cachedDetectionResult.result;
   }
   
+  // A 'deny' match is final, before any other signal; otherwise custom signals count on their own, in every mode
+  const match = matchUserAgent(options);
+  const result = !match.denied && (
+    decide(
+      mode,
+      () => match.pattern !== null,
+      () => isHeadlessBrowser(),
+      () => !supportsCookies()
+    ) || isCustomSignalBot(options.signals)
+  );
+  
   // Cache the result
-  cachedDetectionResult = { mode, result, timestamp: Date.now() };
+  cachedDetectionResult = { mode, options, result, timestamp: Date.now() };
   
   return result;
-}
\ No newline at end of file
+}
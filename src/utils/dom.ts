@@ -45,6 +45,19 @@ export function addStyles(id: string, styles: string): void {
   }
 }
 
+/**
+ * Resolve once the DOM has been parsed
+ */
+export function domReady(): Promise<void> {
+  if (document.readyState !== 'loading') {
+    return Promise.resolve();
+  }
+  
+  return new Promise(resolve => {
+    document.addEventListener('DOMContentLoaded', () => resolve(), { once: true });
+  });
+}
+
 /**
  * Generate a unique ID
  */
@@ -86,9 +99,24 @@ export function parseMessage(event: MessageEvent): { type: string; data?: any }
 }
 
 /**
- * Check if origin is trusted
+ * Normalize a URL or origin string to its origin (scheme://host[:port])
+ * Returns null for unparseable or opaque origins
  */
-export function isTrustedOrigin(origin: string): boolean {
-  const trustedDomains = ['agemin.com', 'verify.agemin.com', 'localhost'];
-  return trustedDomains.some(domain => origin.includes(domain));
-}
\ No newline at end of file
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const origin = new URL(value).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if origin exactly matches one of the trusted origins
+ */
+export function isTrustedOrigin(origin: string, trustedOrigins: string[]): boolean {
+  const normalized = normalizeOrigin(origin);
+  if (!normalized) return false;
+  
+  return trustedOrigins.some(trusted => normalizeOrigin(trusted) === normalized);
+}
@@ -3,6 +3,7 @@
  */
 
 import FingerprintJS from '@fingerprintjs/fingerprintjs';
+import { FingerprintProvider } from '../types';
 
 // Cache for the FingerprintJS agent promise
 let fpAgentPromise: Promise<any> | null = null;
@@ -54,6 +55,29 @@ export async function getDeviceFingerprint(forceRefresh: boolean = false): Promi
   }
 }
 
+/**
+ * Get the fingerprint from the configured source
+ * - true: built-in FingerprintJS fingerprint
+ * - false: no fingerprint (empty string)
+ * - function: custom provider (empty string if it fails)
+ */
+export async function resolveFingerprint(source: boolean | FingerprintProvider = true): Promise<string> {
+  if (source === false) {
+    return '';
+  }
+  
+  if (typeof source === 'function') {
+    try {
+      return (await source()) || '';
+    } catch (error) {
+      console.error('Agemin SDK: Custom fingerprint provider failed', error);
+      return '';
+    }
+  }
+  
+  return getDeviceFingerprint();
+}
+
 /**
  * Clear the cached fingerprint
  * Useful for testing or when a new fingerprint is needed
@@ -0,0 +1,91 @@
+/**
+ * Jurisdiction detection and rule matching
+ */
+
+import { JurisdictionRule } from '../types';
+
+// IANA timezone -> ISO 3166-1 country code (heuristic; a server-provided region is more reliable)
+const TIMEZONE_REGIONS: Record<string, string> = {
+  'America/New_York': 'US', 'America/Chicago': 'US', 'America/Denver': 'US', 'America/Phoenix': 'US',
+  'America/Los_Angeles': 'US', 'America/Anchorage': 'US', 'America/Detroit': 'US', 'Pacific/Honolulu': 'US',
+  'America/Indiana/Indianapolis': 'US', 'America/Kentucky/Louisville': 'US', 'America/Boise': 'US',
+  'America/Toronto': 'CA', 'America/Vancouver': 'CA', 'America/Edmonton': 'CA', 'America/Winnipeg': 'CA',
+  'America/Halifax': 'CA', 'America/St_Johns': 'CA', 'America/Regina': 'CA',
+  'America/Mexico_City': 'MX', 'America/Tijuana': 'MX', 'America/Monterrey': 'MX', 'America/Cancun': 'MX',
+  'America/Sao_Paulo': 'BR', 'America/Manaus': 'BR', 'America/Fortaleza': 'BR', 'America/Recife': 'BR',
+  'America/Argentina/Buenos_Aires': 'AR', 'America/Santiago': 'CL', 'America/Bogota': 'CO', 'America/Lima': 'PE',
+  'America/Caracas': 'VE', 'America/Montevideo': 'UY', 'America/Panama': 'PA', 'America/Puerto_Rico': 'PR',
+  'Europe/London': 'GB', 'Europe/Dublin': 'IE', 'Europe/Lisbon': 'PT', 'Europe/Madrid': 'ES',
+  'Europe/Paris': 'FR', 'Europe/Brussels': 'BE', 'Europe/Amsterdam': 'NL', 'Europe/Luxembourg': 'LU',
+  'Europe/Berlin': 'DE', 'Europe/Zurich': 'CH', 'Europe/Vienna': 'AT', 'Europe/Rome': 'IT',
+  'Europe/Copenhagen': 'DK', 'Europe/Oslo': 'NO', 'Europe/Stockholm': 'SE', 'Europe/Helsinki': 'FI',
+  'Europe/Warsaw': 'PL', 'Europe/Prague': 'CZ', 'Europe/Bratislava': 'SK', 'Europe/Budapest': 'HU',
+  'Europe/Ljubljana': 'SI', 'Europe/Zagreb': 'HR', 'Europe/Belgrade': 'RS', 'Europe/Bucharest': 'RO',
+  'Europe/Sofia': 'BG', 'Europe/Athens': 'GR', 'Europe/Istanbul': 'TR', 'Europe/Kiev': 'UA',
+  'Europe/Kyiv': 'UA', 'Europe/Vilnius': 'LT', 'Europe/Riga': 'LV', 'Europe/Tallinn': 'EE',
+  'Europe/Moscow': 'RU', 'Europe/Malta': 'MT', 'Asia/Nicosia': 'CY', 'Atlantic/Reykjavik': 'IS',
+  'Asia/Tokyo': 'JP', 'Asia/Seoul': 'KR', 'Asia/Shanghai': 'CN', 'Asia/Hong_Kong': 'HK',
+  'Asia/Taipei': 'TW', 'Asia/Singapore': 'SG', 'Asia/Kuala_Lumpur': 'MY', 'Asia/Bangkok': 'TH',
+  'Asia/Jakarta': 'ID', 'Asia/Manila': 'PH', 'Asia/Ho_Chi_Minh': 'VN', 'Asia/Kolkata': 'IN',
+  'Asia/Calcutta': 'IN', 'Asia/Karachi': 'PK', 'Asia/Dhaka': 'BD', 'Asia/Dubai': 'AE',
+  'Asia/Riyadh': 'SA', 'Asia/Qatar': 'QA', 'Asia/Jerusalem': 'IL', 'Asia/Tel_Aviv': 'IL',
+  'Australia/Sydney': 'AU', 'Australia/Melbourne': 'AU', 'Australia/Brisbane': 'AU', 'Australia/Perth': 'AU',
+  'Australia/Adelaide': 'AU', 'Australia/Hobart': 'AU', 'Australia/Darwin': 'AU', 'Pacific/Auckland': 'NZ',
+  'Africa/Johannesburg': 'ZA', 'Africa/Lagos': 'NG', 'Africa/Nairobi': 'KE', 'Africa/Cairo': 'EG',
+  'Africa/Casablanca': 'MA'
+};
+
+/**
+ * Guess the visitor's country from the browser timezone, then the locale region subtag
+ * @returns ISO 3166-1 alpha-2 code, or null if unknown
+ */
+export function detectRegion(): string | null {
+  try {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (timeZone && TIMEZONE_REGIONS[timeZone]) {
+      return TIMEZONE_REGIONS[timeZone];
+    }
+  } catch {
+    // Intl not available - fall through to locale
+  }
+  
+  if (typeof navigator !== 'undefined') {
+    const languages = navigator.languages && navigator.languages.length
+      ? navigator.languages
+      : [navigator.language];
+    
+    for (const language of languages) {
+      // e.g. 'en-US' or 'zh-Hant-TW' -> region subtag
+      const region = (language || '').split('-').slice(1).find(part => /^[A-Za-z]{2}$/.test(part));
+      if (region) {
+        return region.toUpperCase();
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Find the most specific rule for a region
+ * 'US-CA' matches 'US-CA', then 'US', then the '*' default
+ */
+export function matchRule(
+  rules: Record<string, JurisdictionRule>,
+  region: string | null
+): JurisdictionRule | null {
+  const normalized: Record<string, JurisdictionRule> = {};
+  Object.keys(rules).forEach(key => {
+    normalized[key.toUpperCase()] = rules[key];
+  });
+  
+  if (region) {
+    const code = region.toUpperCase();
+    if (normalized[code]) return normalized[code];
+    
+    const country = code.split('-')[0];
+    if (normalized[country]) return normalized[country];
+  }
+  
+  return normalized['*'] || null;
+}
@@ -0,0 +1,82 @@
+/**
+ * Public key resolution for age verification tokens
+ * Keys are chosen by `kid` from a configured JWKS URL, with a bundled key set as fallback
+ * when the JWKS document cannot be fetched
+ */
+
+import { createRemoteJWKSet, errors, JSONWebKeySet, JWK, JWTVerifyGetKey } from 'jose';
+
+// Bundled Agemin signing keys - used when no JWKS URL is configured or it cannot be reached
+// The first key is the primary key, used for tokens without a `kid`
+export const BUNDLED_JWKS: JSONWebKeySet = {
+  keys: [
+    {
+      kty: 'RSA',
+      kid: 'ssR7JrSxb4_WPYFHrwfRSdW5Oon4PW1udcTq9BEa4lU',
+      alg: 'RS256',
+      use: 'sig',
+      n: 'gs4sO1z5s1ZAcrBJJXmBfZV69hSvXOLdYhLX7U7oYTV20KCW3xXM37m0bsh48Uq3JqrWVVnqNqNQI8U4ka4v4CR80OSWp2oAF_9ORigz_VCsddZ9X6UCkwl7qkhpW1yRBeuMeGWu7d6C43eOo-k_GqjDIrj3GI9DXRcVV_-68sBQVYFz8ybSEbkNsMJNoyz-oNU5zJyqB_Yq0A8D5Od84M2nFD2pHEFF93tEmBR7VaPpK4-87NQ9u5cDEB49hkxm2F54scRNHwcHWQk_MUy1RZz0jkprASaj5HfcMXrr_KGdIIRxpJo7Ft4_tN-5YkAWX8Pg13--82uLUz0SsK_EBQ',
+      e: 'AQAB'
+    }
+  ]
+};
+
+/**
+ * Cache of remote key sets, keyed by JWKS URL
+ * jose caches the fetched document internally and refetches on unknown `kid`
+ */
+const remoteKeySets = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+/**
+ * Pick a bundled key by `kid`; tokens without a `kid` use the primary key
+ * An unknown `kid` is rejected rather than mapped to the primary key
+ */
+function getBundledKey(kid: string | undefined): JWK {
+  const keys = BUNDLED_JWKS.keys;
+  if (!kid) return keys[0];
+  
+  const key = keys.find(candidate => candidate.kid === kid);
+  if (!key) {
+    throw new errors.JWKSNoMatchingKey();
+  }
+  return key;
+}
+
+/**
+ * Whether a remote key resolution error means the JWKS document could not be fetched
+ * (network error, timeout, non-200 response or unparsable body), as opposed to a
+ * well-formed key set that doesn't publish the `kid`
+ */
+function isFetchFailure(error: unknown): boolean {
+  if (!(error instanceof errors.JOSEError)) return true;
+  return error.code === errors.JWKSTimeout.code || error.code === errors.JOSEError.code;
+}
+
+/**
+ * Get a key resolver for jwtVerify
+ * @param jwksUrl - Optional JWKS document URL; bundled keys are used when omitted or unreachable
+ */
+export function getKeyResolver(jwksUrl?: string | null): JWTVerifyGetKey {
+  if (!jwksUrl) {
+    return async (header) => getBundledKey(header.kid);
+  }
+  
+  let remoteKeySet = remoteKeySets.get(jwksUrl);
+  if (!remoteKeySet) {
+    remoteKeySet = createRemoteJWKSet(new URL(jwksUrl));
+    remoteKeySets.set(jwksUrl, remoteKeySet);
+  }
+  const resolveRemote = remoteKeySet;
+  
+  return async (header, token) => {
+    try {
+      return await resolveRemote(header, token);
+    } catch (error) {
+      // A key missing from a reachable JWKS has been retired - never fall back for it
+      if (!isFetchFailure(error)) throw error;
+      
+      // JWKS unreachable - fall back to the bundled key set
+      return getBundledKey(header.kid);
+    }
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Parsing of redirect-mode results from the return page URL
+ */
+
+import { VerificationError } from '../types';
+import { REDIRECT_PARAMS } from './constants';
+
+export interface RedirectResult {
+  status: 'success' | 'error' | 'cancel';
+  jwt?: string;
+  error?: VerificationError;
+}
+
+/**
+ * Collect parameters from both the fragment and the query (fragment wins)
+ */
+function getParams(url: URL): URLSearchParams {
+  const params = new URLSearchParams(url.search);
+  const fragment = new URLSearchParams(url.hash.replace(/^#/, ''));
+  fragment.forEach((value, key) => params.set(key, value));
+  return params;
+}
+
+/**
+ * Read the verification outcome from a return URL
+ * @returns null if the URL carries no Agemin result
+ */
+export function readRedirectResult(href: string): RedirectResult | null {
+  const params = getParams(new URL(href));
+  const status = params.get(REDIRECT_PARAMS.status);
+  const jwt = params.get(REDIRECT_PARAMS.jwt) || undefined;
+  
+  if (!status && !jwt) {
+    return null;
+  }
+  
+  if (status === 'cancel') {
+    return { status: 'cancel' };
+  }
+  
+  if (status === 'error') {
+    return {
+      status: 'error',
+      error: {
+        code: params.get(REDIRECT_PARAMS.errorCode) || 'VERIFICATION_ERROR',
+        message: params.get(REDIRECT_PARAMS.errorMessage) || 'Verification failed'
+      }
+    };
+  }
+  
+  // `agemin_exp` is only stripped from the URL: the expiry is taken from the verified token
+  return { status: 'success', jwt };
+}
+
+/**
+ * Remove Agemin result parameters from a URL
+ */
+export function stripRedirectParams(href: string): string {
+  const url = new URL(href);
+  const names = Object.values(REDIRECT_PARAMS);
+  
+  names.forEach(name => url.searchParams.delete(name));
+  
+  if (url.hash) {
+    const fragment = new URLSearchParams(url.hash.replace(/^#/, ''));
+    if (names.some(name => fragment.has(name))) {
+      names.forEach(name => fragment.delete(name));
+      const remaining = fragment.toString();
+      url.hash = remaining ? '#' + remaining : '';
+    }
+  }
+  
+  return url.toString();
+}
@@ -0,0 +1,111 @@
+import { CookieOptions, TokenStorage, TokenStorageAdapter } from '../types';
+import { setCookie, getCookie, deleteCookie } from './cookies';
+
+/**
+ * Token storage adapters for the verification JWT
+ */
+
+interface StoredToken {
+  value: string;
+  expiresAt: number | null;
+}
+
+// Shared by all instances for the lifetime of the page
+const memoryStore = new Map<string, StoredToken>();
+
+function isExpired(entry: StoredToken): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= Date.now();
+}
+
+function toEntry(value: string, expiresSeconds: number | null): StoredToken {
+  return {
+    value,
+    expiresAt: expiresSeconds ? Date.now() + expiresSeconds * 1000 : null
+  };
+}
+
+function cookieStorage(options: CookieOptions): TokenStorageAdapter {
+  return {
+    get: key => getCookie(key),
+    set: (key, value, expiresSeconds) => setCookie(key, value, expiresSeconds, options),
+    remove: key => deleteCookie(key, options)
+  };
+}
+
+const memoryStorage: TokenStorageAdapter = {
+  get(key) {
+    const entry = memoryStore.get(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      memoryStore.delete(key);
+      return null;
+    }
+    return entry.value;
+  },
+  set(key, value, expiresSeconds) {
+    memoryStore.set(key, toEntry(value, expiresSeconds));
+  },
+  remove(key) {
+    memoryStore.delete(key);
+  }
+};
+
+/**
+ * Web Storage adapter (localStorage/sessionStorage)
+ * Entries carry their own expiry since Web Storage has none.
+ * Access errors (e.g. storage disabled) are treated as "no token".
+ */
+function webStorage(getStore: () => Storage): TokenStorageAdapter {
+  return {
+    get(key) {
+      try {
+        const raw = getStore().getItem(key);
+        if (!raw) return null;
+        
+        const entry = JSON.parse(raw) as StoredToken;
+        if (typeof entry?.value !== 'string' || isExpired(entry)) {
+          getStore().removeItem(key);
+          return null;
+        }
+        return entry.value;
+      } catch {
+        return null;
+      }
+    },
+    set(key, value, expiresSeconds) {
+      try {
+        getStore().setItem(key, JSON.stringify(toEntry(value, expiresSeconds)));
+      } catch (error) {
+        console.warn('Agemin SDK: Failed to store verification token', error);
+      }
+    },
+    remove(key) {
+      try {
+        getStore().removeItem(key);
+      } catch {
+        // Nothing stored if storage is unavailable
+      }
+    }
+  };
+}
+
+/**
+ * Resolve the `storage` config to an adapter
+ */
+export function createTokenStorage(storage: TokenStorage, cookieOptions: CookieOptions = {}): TokenStorageAdapter {
+  if (typeof storage === 'object' && storage !== null) {
+    return storage;
+  }
+  
+  switch (storage) {
+    case 'localStorage':
+      return webStorage(() => window.localStorage);
+    case 'sessionStorage':
+      return webStorage(() => window.sessionStorage);
+    case 'memory':
+      return memoryStorage;
+    case 'cookie':
+    default:
+      return cookieStorage(cookieOptions);
+  }
+}
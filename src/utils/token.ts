@@ -0,0 +1,137 @@
+/**
+ * Environment-agnostic age token verification
+ * Shared by the browser SDK and the server entry - must not touch the DOM
+ */
+
+import { jwtVerify } from 'jose';
+import { JWTPayload, TokenValidationResult, VerifyTokenOptions } from '../types/token';
+import { getKeyResolver } from './jwks';
+
+/**
+ * Check if a hostname is localhost or an IP address (local development)
+ */
+function isLocalHostname(hostname: string): boolean {
+  return hostname === 'localhost' ||
+         /^[\d.]+$/.test(hostname) || // IPv4
+         /^\[?[\da-f]*:[\da-f:.]*\]?$/i.test(hostname); // IPv6 (must contain a colon)
+}
+
+/**
+ * Validate that the JWT domain matches the current hostname
+ * 
+ * @param allowLocalDev - Skip validation for localhost and IP addresses. Only safe when the
+ *   hostname comes from the browser itself, never from a client-supplied Host header.
+ */
+export function isValidDomain(
+  jwtDomain: string | undefined,
+  currentHostname: string,
+  allowLocalDev: boolean = false
+): boolean {
+  // Normalize the hostname (remove port if present; bare IPv6 addresses have several colons)
+  const lower = currentHostname.toLowerCase();
+  const normalizedCurrent = lower.split(':').length === 2 ? lower.split(':')[0] : lower;
+  
+  // Skip validation for local development environments (also when the JWT has no domain)
+  if (allowLocalDev && isLocalHostname(normalizedCurrent)) {
+    return true;
+  }
+  
+  if (!jwtDomain) {
+    return false;
+  }
+  
+  const normalizedJWT = jwtDomain.toLowerCase();
+  
+  // Exact match
+  if (normalizedJWT === normalizedCurrent) {
+    return true;
+  }
+  
+  // Subdomain match (e.g., www.example.com matches example.com)
+  if (normalizedCurrent.endsWith('.' + normalizedJWT)) {
+    return true;
+  }
+  
+  return false;
+}
+
+/**
+ * Verify an age token (signature, expiration, domain and device binding)
+ * Has no DOM dependency, so it can run in Node, edge runtimes and browsers
+ */
+export async function verifyAgeToken(
+  token: string,
+  options: VerifyTokenOptions = {}
+): Promise<TokenValidationResult> {
+  try {
+    // Resolve the signing key by `kid` (configured JWKS, then bundled keys)
+    const getKey = getKeyResolver(options.jwksUrl);
+    
+    // Verify the JWT (this checks signature and expiration)
+    const { payload } = await jwtVerify(token, getKey, {
+      algorithms: ['RS256'],
+      issuer: options.issuer || 'agemin.com',
+      currentDate: options.now
+    });
+    
+    // Cast to our expected payload type
+    const typedPayload = payload as unknown as JWTPayload;
+    
+    // Validate domain matches the expected hostname
+    const jwtDomain = typedPayload.data?.domain;
+    
+    if (options.expectedDomain !== undefined) {
+      const expectedDomains = ([] as string[]).concat(options.expectedDomain);
+      if (!expectedDomains.some(domain => isValidDomain(jwtDomain, domain, options.allowLocalDomain))) {
+        return {
+          isValid: false,
+          isOfAge: false,
+          error: `JWT domain mismatch - token is for ${jwtDomain} but expected ${expectedDomains.join(', ')}`
+        };
+      }
+    }
+    
+    // Validate fingerprint matches the expected device (if fingerprint is present in JWT)
+    const jwtFingerprint = typedPayload.data?.fp;
+    const fingerprintMismatch = !!jwtFingerprint && !!options.expectedFingerprint &&
+      options.expectedFingerprint !== jwtFingerprint;
+    if (fingerprintMismatch && !options.allowFingerprintMismatch) {
+      return {
+        isValid: false,
+        isOfAge: false,
+        error: `JWT fingerprint mismatch - token was issued for a different device`
+      };
+    }
+    
+    // Check is_of_age in payload
+    const isOfAge = typedPayload.data?.is_of_age === true;
+    
+    return {
+      isValid: true,
+      isOfAge,
+      payload: typedPayload,
+      ...(fingerprintMismatch ? { fingerprintMismatch } : {})
+    };
+  } catch (error) {
+    // Handle specific jose errors
+    let errorMessage = 'Unknown error';
+    
+    if (error instanceof Error) {
+      if (error.message.includes('expired')) {
+        errorMessage = 'JWT expired';
+      } else if (error.message.includes('signature')) {
+        errorMessage = 'Invalid signature';
+      } else if (error.message.includes('claim')) {
+        errorMessage = 'Invalid JWT claims';
+      } else {
+        errorMessage = error.message;
+      }
+    }
+    
+    return { 
+      isValid: false, 
+      isOfAge: false, 
+      error: errorMessage
+    };
+  }
+}